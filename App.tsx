@@ -1,10 +1,18 @@
 import React from 'react';
 import { SlingshotCanvas } from '@/components/SlingshotCanvas';
 
+// `?seed=1234` replays the exact same sequence of projectiles and bursts
+const getSeedFromUrl = () => {
+  const value = new URLSearchParams(window.location.search).get("seed");
+  if (value === null) return undefined;
+  const seed = Number(value);
+  return Number.isFinite(seed) ? seed : undefined;
+};
+
 const App: React.FC = () => {
   return (
     <main>
-      <SlingshotCanvas />
+      <SlingshotCanvas seed={getSeedFromUrl()} />
     </main>
   );
 };
@@ -0,0 +1,146 @@
+import React from "react";
+import { GameSnapshot } from "@/services/game";
+
+interface GameOverlayProps {
+  game: GameSnapshot;
+  getSpriteSrc: (key: string) => string | undefined;
+  onPlayAgain: () => void;
+  onExit: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.ceil(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, "0")}`;
+};
+
+export const GameOverlay: React.FC<GameOverlayProps> = ({
+  game,
+  getSpriteSrc,
+  onPlayAgain,
+  onExit,
+}) => {
+  const accuracy = game.shots ? Math.round((game.shotsOnTarget / game.shots) * 100) : 0;
+  const madePar = !!game.level && game.score >= game.level.par;
+
+  return (
+    <>
+      {/* Level Geometry + Targets */}
+      <div className="absolute inset-0 pointer-events-none z-10">
+        {game.anchorZone && (
+          <div
+            className="absolute border-2 border-dashed border-white/40"
+            style={{
+              left: game.anchorZone.x,
+              top: game.anchorZone.y,
+              width: game.anchorZone.width,
+              height: game.anchorZone.height,
+            }}
+          />
+        )}
+        {game.obstacles.map((obstacle, i) => (
+          <div
+            key={i}
+            className="absolute bg-white/20 border border-white/50"
+            style={{
+              left: obstacle.x,
+              top: obstacle.y,
+              width: obstacle.width,
+              height: obstacle.height,
+            }}
+          />
+        ))}
+        {game.targets.map((target) => (
+          <div
+            key={target.id}
+            className="absolute rounded-full border border-white/40 bg-white/5 flex items-center justify-center"
+            style={{
+              left: target.x - target.radius,
+              top: target.y - target.radius,
+              width: target.radius * 2,
+              height: target.radius * 2,
+            }}
+          >
+            {getSpriteSrc(target.key) && (
+              <img
+                src={getSpriteSrc(target.key)}
+                alt=""
+                className="w-[70%] h-[70%] object-contain"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Score HUD */}
+      {game.status === "running" && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 pointer-events-none text-[11px] uppercase tracking-[0.2em] text-white/80">
+          <span className="rounded-full border border-white/25 bg-black/60 px-3 py-1 tabular-nums">
+            {formatTime(game.timeLeft)}
+          </span>
+          {game.level && (
+            <span className="rounded-full border border-white/25 bg-black/60 px-3 py-1">
+              {game.level.name}
+            </span>
+          )}
+          <span className="rounded-full border border-white/25 bg-black/60 px-3 py-1 tabular-nums">
+            Score {game.score}
+          </span>
+          {game.shotsLeft !== null && (
+            <span className="rounded-full border border-white/25 bg-black/60 px-3 py-1 tabular-nums">
+              {game.shotsLeft} shots
+            </span>
+          )}
+          {game.combo > 1 && (
+            <span className="rounded-full border border-white/70 bg-white text-black px-3 py-1 font-semibold tabular-nums">
+              x{game.combo} combo
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Results */}
+      {game.status === "finished" && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+          <div className="w-72 rounded border border-white/25 bg-black/80 p-6 text-center">
+            <div className="text-[11px] uppercase tracking-[0.2em] text-white/60">
+              {game.cleared ? "Level cleared" : game.level ? "Level over" : "Time's up"}
+            </div>
+            <div className="mt-2 text-5xl font-semibold tabular-nums">{game.score}</div>
+            <dl className="mt-4 grid grid-cols-2 gap-y-1 text-xs text-white/70">
+              <dt className="text-left">Hits</dt>
+              <dd className="text-right tabular-nums">{game.hits}</dd>
+              <dt className="text-left">Shots</dt>
+              <dd className="text-right tabular-nums">{game.shots}</dd>
+              <dt className="text-left">Accuracy</dt>
+              <dd className="text-right tabular-nums">{accuracy}%</dd>
+              <dt className="text-left">Best combo</dt>
+              <dd className="text-right tabular-nums">x{game.bestCombo}</dd>
+              {game.level && (
+                <>
+                  <dt className="text-left">Par</dt>
+                  <dd className="text-right tabular-nums">
+                    {game.level.par} {madePar ? "✓" : ""}
+                  </dd>
+                </>
+              )}
+            </dl>
+            <div className="mt-5 flex gap-2">
+              <button
+                onClick={onPlayAgain}
+                className="flex-1 rounded-full border border-white/70 bg-white px-3 py-1.5 text-sm font-semibold text-black"
+              >
+                Play again
+              </button>
+              <button
+                onClick={onExit}
+                className="flex-1 rounded-full border border-white/30 px-3 py-1.5 text-sm font-semibold text-white/70 hover:bg-white/10"
+              >
+                Exit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -1,72 +1,243 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 
 import {
-  createHandLandmarker,
-  detectHands,
-  getCursorPosition,
-  isPinching,
+  CursorFilterOptions,
+  getCoverTransform,
+  PinchThresholds,
 } from '@/services/handTracking';
-import { HandInputData } from '@/utils/types';
+import {
+  clearPinchThresholds,
+  computePinchThresholds,
+  loadPinchThresholds,
+  savePinchThresholds,
+} from '@/services/calibration';
+import { createHandDetector, HandDetector } from '@/services/handDetector';
+import {
+    createImageSequencePlayer,
+    ImageSequencePlayer,
+    isImageFile,
+    sortImageSequence,
+} from '@/services/imageSequence';
+import { HandInputSource } from '@/services/input';
+import { PerformanceBudget } from '@/services/performance';
+import { analyzeVideo, DEFAULT_ANALYSIS_FPS } from '@/services/videoAnalysis';
+import { Handedness, HandInputData, Point, Rect } from '@/utils/types';
+import { downloadJson } from '@/utils/utils';
+
+// Each calibration pose is sampled for this long, after a short settle
+const CALIBRATION_STEP_MS = 2000;
+const CALIBRATION_SETTLE_MS = 500;
+
+type CalibrationStep = 'open' | 'pinch';
+
+// A video file, or an image sequence played one image per frame
+type Clip = File | File[];
+
+const getClipName = (clip: Clip) => (Array.isArray(clip) ? clip[0].name : clip.name);
+
+const CALIBRATION_PROMPTS: Record<CalibrationStep, string> = {
+    open: 'Hold one hand open, palm to the camera',
+    pinch: 'Now pinch your thumb and index finger together'
+};
 
 interface HandControllerProps {
-    onUpdate: (data: HandInputData) => void;
+    /** Receives every tracked frame; null while no consumer is listening. */
+    source: HandInputSource | null;
     enabled: boolean;
+    /** Cursor smoothing, read on mount. One Euro with default tuning when omitted. */
+    cursorFilter?: Partial<CursorFilterOptions>;
+    /** Part of the mirrored camera frame (0..1) mapped to the whole screen. */
+    activeZone?: Rect | null;
+    /** Sets detection rate and input resolution; receives detection latency. */
+    budget?: PerformanceBudget;
 }
 
-export const HandController: React.FC<HandControllerProps> = ({ onUpdate, enabled }) => {
+interface TrackedFrame {
+    data: HandInputData;
+    /** Where the cursor was shown when `data` arrived. */
+    from: Point;
+    at: number;
+}
+
+// Glides from the previously shown cursor to the latest detection over one detection interval
+const getInterpolatedCursor = ({ data, from, at }: TrackedFrame, now: number, interval: number) => {
+    const t = interval > 0 ? Math.min((now - at) / interval, 1) : 1;
+    return {
+        x: from.x + (data.cursor.x - from.x) * t,
+        y: from.y + (data.cursor.y - from.y) * t
+    };
+};
+
+export const HandController: React.FC<HandControllerProps> = ({
+    source,
+    enabled,
+    cursorFilter,
+    activeZone = null,
+    budget
+}) => {
     const videoRef = useRef<HTMLVideoElement>(null);
+    // Read through refs so swapping the source or zone doesn't restart the camera
+    const sourceRef = useRef(source);
+    sourceRef.current = source;
+    const activeZoneRef = useRef(activeZone);
+    activeZoneRef.current = activeZone;
+    const budgetRef = useRef(budget);
+    budgetRef.current = budget;
+    const lastDetectionRef = useRef(-Infinity);
+    const framesRef = useRef(new Map<Handedness, TrackedFrame>());
+    const [viewport, setViewport] = useState({ width: window.innerWidth, height: window.innerHeight });
     const requestRef = useRef<number>();
     const isRequestingPermissionRef = useRef(false);
     const startListenersRef = useRef<string[]>([]);
     const hasStartedRef = useRef(false);
-    const handStateRef = useRef({
-        isPinching: false,
-        lastCursor: { x: 0, y: 0 },
-        lastDetectedAt: 0
-    });
+    // Detection runs in a worker when possible; created once per mount
+    const detectorRef = useRef<HandDetector | null>(null);
+    const isDetectingRef = useRef(false);
+    const calibrationRef = useRef<{
+        step: CalibrationStep;
+        startedAt: number;
+        samples: Record<CalibrationStep, number[]>;
+    } | null>(null);
+    const [calibration, setCalibration] = useState<
+        { step: CalibrationStep | 'done' } | { step: 'error'; message: string } | null
+    >(null);
     const [isLoaded, setIsLoaded] = useState(false);
     const [isStreaming, setIsStreaming] = useState(false);
     const [permissionError, setPermissionError] = useState<string | null>(null);
     const [isRequestingPermission, setIsRequestingPermission] = useState(false);
+    // A local clip played through the same detection loop instead of the camera
+    const [clip, setClip] = useState<Clip | null>(null);
+    const [isPaused, setIsPaused] = useState(false);
+    const [loop, setLoop] = useState(true);
+    const loopRef = useRef(loop);
+    loopRef.current = loop;
+    const [analysisProgress, setAnalysisProgress] = useState<number | null>(null);
+    const videoUrlRef = useRef<string | null>(null);
+    // Image sequences report their own playback; the element just shows the capture
+    const sequenceRef = useRef<ImageSequencePlayer | null>(null);
+    const clipRef = useRef(clip);
+    clipRef.current = clip;
+    const videoInputRef = useRef<HTMLInputElement>(null);
+    const analysisRef = useRef<AbortController | null>(null);
+
+    const applyPinchThresholds = (thresholds: PinchThresholds) => {
+        detectorRef.current?.configure({ pinchThresholds: thresholds });
+    };
+
+    const startCalibration = () => {
+        calibrationRef.current = {
+            step: 'open',
+            startedAt: performance.now(),
+            samples: { open: [], pinch: [] }
+        };
+        setCalibration({ step: 'open' });
+    };
+
+    const resetCalibration = () => {
+        clearPinchThresholds();
+        applyPinchThresholds(loadPinchThresholds());
+        setCalibration(null);
+    };
+
+    // Samples the first visible hand's pinch ratio for the current pose
+    const recordCalibration = (pinchRatio: number | undefined, now: number) => {
+        const calibrating = calibrationRef.current;
+        if (!calibrating) return;
+
+        const elapsed = now - calibrating.startedAt;
+        if (pinchRatio !== undefined && elapsed > CALIBRATION_SETTLE_MS) {
+            calibrating.samples[calibrating.step].push(pinchRatio);
+        }
+        if (elapsed < CALIBRATION_SETTLE_MS + CALIBRATION_STEP_MS) return;
 
-    const predictWebcam = useCallback(() => {
-        if (!videoRef.current) return;
+        if (calibrating.step === 'open') {
+            calibrating.step = 'pinch';
+            calibrating.startedAt = now;
+            setCalibration({ step: 'pinch' });
+            return;
+        }
 
-        const startTimeMs = performance.now();
-        const results = detectHands(videoRef.current, startTimeMs);
-        const now = performance.now();
-
-        if (results && results.landmarks && results.landmarks.length > 0) {
-            const landmarks = results.landmarks[0];
-            const pinching = isPinching(landmarks, handStateRef.current.isPinching);
-            const cursor = getCursorPosition(landmarks, window.innerWidth, window.innerHeight);
-
-            handStateRef.current.isPinching = pinching;
-            handStateRef.current.lastCursor = cursor;
-            handStateRef.current.lastDetectedAt = now;
-
-            onUpdate({
-                cursor,
-                isPinching: pinching,
-                isDetected: true
+        calibrationRef.current = null;
+        try {
+            const thresholds = computePinchThresholds(calibrating.samples.open, calibrating.samples.pinch);
+            savePinchThresholds(thresholds);
+            applyPinchThresholds(thresholds);
+            setCalibration({ step: 'done' });
+        } catch (err: any) {
+            setCalibration({ step: 'error', message: err.message });
+        }
+    };
+
+    // Pushes the latest hands, with cursors interpolated between detections
+    const pushFrames = (now: number, interval: number) => {
+        const calibrating = !!calibrationRef.current;
+
+        framesRef.current.forEach((frame) => {
+            sourceRef.current?.push({
+                ...frame.data,
+                cursor: getInterpolatedCursor(frame, now, interval),
+                // Calibration pinches shouldn't fire shots
+                gesture: calibrating ? 'none' : frame.data.gesture
             });
-        } else {
-            const delta = now - handStateRef.current.lastDetectedAt;
-            const stillDetected = delta < 140;
+        });
+    };
 
-            if (!stillDetected) {
-                handStateRef.current.isPinching = false;
-            }
+    const handleHands = (hands: HandInputData[], now: number, interval: number) => {
+        if (calibrationRef.current) {
+            recordCalibration(hands.find((data) => data.pinchRatio !== undefined)?.pinchRatio, now);
+        }
 
-            onUpdate({
-                cursor: handStateRef.current.lastCursor,
-                isPinching: handStateRef.current.isPinching,
-                isDetected: stillDetected
-            });
+        hands.forEach((data) => {
+            const previous = framesRef.current.get(data.hand);
+            const from = previous?.data.isDetected && data.isDetected
+                ? getInterpolatedCursor(previous, now, interval)
+                : data.cursor;
+            framesRef.current.set(data.hand, { data, from, at: now });
+        });
+        pushFrames(now, interval);
+    };
+
+    const predictWebcam = useCallback(() => {
+        const video = videoRef.current;
+        const detector = detectorRef.current;
+        if (!video || !detector) return;
+
+        const { detectionInterval, inputScale } = budgetRef.current?.getSettings() ?? {
+            detectionInterval: 0,
+            inputScale: 1
+        };
+        const startTimeMs = performance.now();
+
+        // One frame in flight at a time; the worker answers asynchronously
+        if (!isDetectingRef.current && startTimeMs - lastDetectionRef.current >= detectionInterval) {
+            isDetectingRef.current = true;
+            lastDetectionRef.current = startTimeMs;
+            detector
+                .detect(video, startTimeMs, {
+                    screenWidth: window.innerWidth,
+                    screenHeight: window.innerHeight,
+                    mapping: {
+                        videoWidth: video.videoWidth,
+                        videoHeight: video.videoHeight,
+                        activeZone: activeZoneRef.current
+                    }
+                }, inputScale)
+                .then((hands) => {
+                    if (!hands) return;
+                    const now = performance.now();
+                    budgetRef.current?.recordDetection(now - startTimeMs);
+                    handleHands(hands, now, detectionInterval);
+                })
+                .catch((err) => console.warn('Hand detection failed for a frame', err))
+                .finally(() => {
+                    isDetectingRef.current = false;
+                });
+        } else if (detectionInterval > 0) {
+            pushFrames(startTimeMs, detectionInterval);
         }
 
         requestRef.current = requestAnimationFrame(predictWebcam);
-    }, [onUpdate]);
+    }, []);
 
     const startStreaming = useCallback(() => {
         if (hasStartedRef.current) return;
@@ -82,6 +253,65 @@ export const HandController: React.FC<HandControllerProps> = ({ onUpdate, enable
         predictWebcam();
     }, [predictWebcam]);
 
+    const ensureDetector = async () => {
+        detectorRef.current ??= await createHandDetector({
+            cursorFilter,
+            pinchThresholds: loadPinchThresholds()
+        });
+        setIsLoaded(true);
+    };
+
+    // Stops the camera stream or image sequence, or unloads the video file
+    const releaseVideo = (videoEl: HTMLVideoElement) => {
+        startListenersRef.current.forEach((evt) => videoEl.removeEventListener(evt, startStreaming));
+        startListenersRef.current = [];
+
+        sequenceRef.current?.destroy();
+        sequenceRef.current = null;
+
+        if (videoEl.srcObject) {
+            (videoEl.srcObject as MediaStream).getTracks().forEach((track) => track.stop());
+            videoEl.srcObject = null;
+        }
+        if (videoUrlRef.current) {
+            videoEl.removeAttribute('src');
+            videoEl.load();
+            URL.revokeObjectURL(videoUrlRef.current);
+            videoUrlRef.current = null;
+        }
+    };
+
+    // Plays a camera stream or a local file and starts detecting once frames arrive
+    const attachVideo = (videoEl: HTMLVideoElement, media: MediaStream | File) => {
+        releaseVideo(videoEl);
+
+        // Ensure autoplay-friendly setup
+        videoEl.muted = true;
+        videoEl.playsInline = true;
+
+        hasStartedRef.current = false;
+        if (media instanceof MediaStream) {
+            videoEl.srcObject = media;
+        } else {
+            videoUrlRef.current = URL.createObjectURL(media);
+            videoEl.src = videoUrlRef.current;
+        }
+
+        const events = ["loadeddata", "canplay", "playing"];
+        startListenersRef.current = events;
+        events.forEach((evt) =>
+            videoEl.addEventListener(evt, startStreaming, { once: false })
+        );
+
+        if (videoEl.readyState >= 2) {
+            startStreaming();
+        } else {
+            videoEl.play().catch(() => {
+                // Autoplay may need a user gesture; events above will fire once ready
+            });
+        }
+    };
+
     const requestCameraAccess = useCallback(async () => {
         if (isRequestingPermissionRef.current) return;
 
@@ -115,8 +345,7 @@ export const HandController: React.FC<HandControllerProps> = ({ onUpdate, enable
                 console.log('Camera permissions query not supported, will handle in getUserMedia');
             }
 
-            await createHandLandmarker();
-            setIsLoaded(true);
+            await ensureDetector();
             
             // Start Camera with more flexible constraints
             const constraints = {
@@ -128,42 +357,12 @@ export const HandController: React.FC<HandControllerProps> = ({ onUpdate, enable
             };
             
             const stream = await navigator.mediaDevices.getUserMedia(constraints);
-            if (videoRef.current) {
-                const videoEl = videoRef.current;
-
-                // Remove prior start listeners
-                if (startListenersRef.current.length) {
-                    startListenersRef.current.forEach((evt) =>
-                        videoEl.removeEventListener(evt, startStreaming)
-                    );
-                }
-
-                // Ensure autoplay-friendly setup
-                videoEl.muted = true;
-                videoEl.playsInline = true;
-
-                if (videoEl.srcObject) {
-                    const existingStream = videoEl.srcObject as MediaStream;
-                    existingStream.getTracks().forEach(track => track.stop());
-                }
-
-                hasStartedRef.current = false;
-                videoEl.srcObject = stream;
-
-                const events = ["loadeddata", "canplay", "playing"];
-                startListenersRef.current = events;
-                events.forEach((evt) =>
-                    videoEl.addEventListener(evt, startStreaming, { once: false })
-                );
-
-                if (videoEl.readyState >= 2) {
-                    startStreaming();
-                } else {
-                    videoEl.play().catch(() => {
-                        // Autoplay may need a user gesture; events above will fire once ready
-                    });
-                }
+            // A clip may have been chosen while the permission prompt was open
+            if (clipRef.current) {
+                stream.getTracks().forEach((track) => track.stop());
+                return;
             }
+            if (videoRef.current) attachVideo(videoRef.current, stream);
         } catch (err: any) {
             console.error("Error initializing hand tracking:", err);
             
@@ -191,41 +390,149 @@ export const HandController: React.FC<HandControllerProps> = ({ onUpdate, enable
         }
     }, [predictWebcam, startStreaming]);
 
+    const startClip = useCallback(async (next: Clip) => {
+        setPermissionError(null);
+        setIsStreaming(false);
+
+        try {
+            await ensureDetector();
+            if (!Array.isArray(next)) {
+                if (videoRef.current) attachVideo(videoRef.current, next);
+                return;
+            }
+
+            // Steps and playback match the frames `analyzeVideo` reads
+            const player = await createImageSequencePlayer(next, {
+                fps: DEFAULT_ANALYSIS_FPS,
+                loop: loopRef.current,
+                onPlaybackChange: setIsPaused
+            });
+            // Another clip, or the camera, may have been chosen while the first frame decoded
+            if (clipRef.current !== next || !videoRef.current) {
+                player.destroy();
+                return;
+            }
+            attachVideo(videoRef.current, player.stream);
+            sequenceRef.current = player;
+            setIsPaused(false);
+        } catch (err: any) {
+            console.error("Error initializing hand tracking:", err);
+            setPermissionError(err.message || 'Hand tracking failed to start.');
+        }
+    }, [startStreaming]);
+
     useEffect(() => {
         if (!enabled) return;
 
-        const init = async () => {
-            await requestCameraAccess();
-        };
-
-        init();
+        if (clip) startClip(clip);
+        else requestCameraAccess();
 
         return () => {
-            if (videoRef.current) {
-                if (startListenersRef.current.length) {
-                    startListenersRef.current.forEach((evt) =>
-                        videoRef.current?.removeEventListener(evt, startStreaming)
-                    );
-                }
-                if (videoRef.current.srcObject) {
-                    const stream = videoRef.current.srcObject as MediaStream;
-                    const tracks = stream.getTracks();
-                    tracks.forEach(track => track.stop());
-                    videoRef.current.srcObject = null;
-                }
-            }
+            if (videoRef.current) releaseVideo(videoRef.current);
             if (requestRef.current) {
                 cancelAnimationFrame(requestRef.current);
                 requestRef.current = undefined;
             }
             setIsStreaming(false);
             hasStartedRef.current = false;
-            startListenersRef.current = [];
         };
-    }, [enabled, requestCameraAccess, startStreaming]);
+    }, [enabled, clip, requestCameraAccess, startClip, startStreaming]);
+
+    useEffect(() => {
+        sequenceRef.current?.setLoop(loop);
+    }, [loop]);
+
+    // --- Clip Controls ---
+    // Several images, or a single one, play as a sequence; otherwise the first file is a video
+    const chooseClip = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (!files.length) return;
+
+        const images = files.filter(isImageFile);
+        setClip(images.length ? sortImageSequence(images) : files[0]);
+    };
+
+    const togglePlayback = () => {
+        const sequence = sequenceRef.current;
+        if (sequence) {
+            if (sequence.isPaused()) sequence.play();
+            else sequence.pause();
+            return;
+        }
+
+        const video = videoRef.current;
+        if (!video) return;
+        if (video.paused) video.play().catch(() => {});
+        else video.pause();
+    };
+
+    // Steps land on the same frames `analyzeVideo` samples
+    const stepVideo = (frames: number) => {
+        if (sequenceRef.current) {
+            sequenceRef.current.step(frames);
+            return;
+        }
+
+        const video = videoRef.current;
+        if (!video) return;
+        video.pause();
+        const time = video.currentTime + frames / DEFAULT_ANALYSIS_FPS;
+        video.currentTime = Math.min(Math.max(time, 0), video.duration || 0);
+    };
+
+    // Clicking again while it runs cancels the analysis
+    const analyzeClip = async () => {
+        if (analysisRef.current) {
+            analysisRef.current.abort();
+            return;
+        }
+        if (!clip) return;
+
+        const controller = new AbortController();
+        analysisRef.current = controller;
+        setAnalysisProgress(0);
+
+        try {
+            const analysis = await analyzeVideo(clip, {
+                pinchThresholds: loadPinchThresholds(),
+                onProgress: setAnalysisProgress,
+                signal: controller.signal
+            });
+            downloadJson(JSON.stringify(analysis), `${getClipName(clip).replace(/\.[^.]+$/, '')}-hands.json`);
+        } catch (err: any) {
+            if (err?.name !== 'AbortError') setPermissionError(`Video analysis failed: ${err.message}`);
+        } finally {
+            analysisRef.current = null;
+            setAnalysisProgress(null);
+        }
+    };
+
+    useEffect(() => () => {
+        detectorRef.current?.destroy();
+        detectorRef.current = null;
+        analysisRef.current?.abort();
+    }, []);
+
+    // The zone outline depends on the window and camera frame sizes
+    useEffect(() => {
+        if (!enabled) return;
+
+        const updateViewport = () =>
+            setViewport({ width: window.innerWidth, height: window.innerHeight });
+        window.addEventListener('resize', updateViewport);
+        return () => window.removeEventListener('resize', updateViewport);
+    }, [enabled]);
 
     if (!enabled) return null;
 
+    const cover = getCoverTransform(
+        viewport.width,
+        viewport.height,
+        videoRef.current?.videoWidth,
+        videoRef.current?.videoHeight
+    );
+
     return (
         <>
             <div className="pointer-events-none absolute inset-0 z-0 overflow-hidden">
@@ -234,11 +541,28 @@ export const HandController: React.FC<HandControllerProps> = ({ onUpdate, enable
                     ref={videoRef}
                     autoPlay
                     playsInline
+                    loop={loop}
+                    onPlay={() => !sequenceRef.current && setIsPaused(false)}
+                    onPause={() => !sequenceRef.current && setIsPaused(true)}
+                    onError={() => {
+                        if (clip) setPermissionError(`${getClipName(clip)} can't be played by this browser.`);
+                    }}
                     className={`absolute inset-0 h-full w-full object-cover transform -scale-x-100 transition-opacity duration-300 ${
                         isStreaming ? 'opacity-90' : 'opacity-30'
                     }`}
                 />
                 <div className="absolute inset-0 bg-gradient-to-b from-black/55 via-black/35 to-black/70" />
+                {activeZone && isStreaming && (
+                    <div
+                        className="absolute rounded border border-dashed border-white/40"
+                        style={{
+                            left: cover.offsetX + activeZone.x * cover.width,
+                            top: cover.offsetY + activeZone.y * cover.height,
+                            width: activeZone.width * cover.width,
+                            height: activeZone.height * cover.height
+                        }}
+                    />
+                )}
             </div>
 
             <div className="fixed top-4 right-4 z-50 flex flex-col items-end gap-2 pointer-events-none opacity-95">
@@ -248,18 +572,26 @@ export const HandController: React.FC<HandControllerProps> = ({ onUpdate, enable
                             <span className="h-1.5 w-1.5 rounded-full bg-white" />
                             <span>{permissionError}</span>
                         </div>
-                        <div className="mt-2 text-xs opacity-90 leading-relaxed">
-                            • Click the camera icon in the address bar<br/>
-                            • Allow camera access<br/>
-                            • Reload this page
-                        </div>
+                        {!clip && (
+                            <div className="mt-2 text-xs opacity-90 leading-relaxed">
+                                • Click the camera icon in the address bar<br/>
+                                • Allow camera access<br/>
+                                • Reload this page
+                            </div>
+                        )}
                         <div className="flex gap-2 mt-3">
                             <button
-                                onClick={requestCameraAccess}
+                                onClick={() => videoInputRef.current?.click()}
+                                className="flex-1 border border-white/30 bg-white/10 hover:bg-white/20 rounded px-2 py-1 text-center transition-colors pointer-events-auto"
+                            >
+                                Use Video or Images
+                            </button>
+                            <button
+                                onClick={clip ? () => setClip(null) : requestCameraAccess}
                                 disabled={isRequestingPermission}
                                 className="flex-1 border border-white/30 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded px-2 py-1 text-center transition-colors pointer-events-auto"
                             >
-                                {isRequestingPermission ? 'Requesting...' : 'Request Camera'}
+                                {isRequestingPermission ? 'Requesting...' : clip ? 'Use Camera' : 'Request Camera'}
                             </button>
                             <button
                                 onClick={() => window.location.reload()}
@@ -271,6 +603,77 @@ export const HandController: React.FC<HandControllerProps> = ({ onUpdate, enable
                     </div>
                 )}
 
+                <div className="flex gap-2">
+                    {!permissionError && (
+                        <button
+                            onClick={clip ? () => setClip(null) : () => videoInputRef.current?.click()}
+                            className="rounded-full border border-white/30 bg-transparent px-3 py-1 text-[11px] uppercase tracking-[0.16em] font-semibold text-white/70 hover:bg-white/10 transition-colors pointer-events-auto"
+                        >
+                            {clip ? 'Use camera' : 'Use video'}
+                        </button>
+                    )}
+                    {isStreaming && !calibration && (
+                        <button
+                            onClick={startCalibration}
+                            className="rounded-full border border-white/30 bg-transparent px-3 py-1 text-[11px] uppercase tracking-[0.16em] font-semibold text-white/70 hover:bg-white/10 transition-colors pointer-events-auto"
+                        >
+                            Calibrate pinch
+                        </button>
+                    )}
+                </div>
+                <input
+                    ref={videoInputRef}
+                    type="file"
+                    accept="video/*,image/*"
+                    multiple
+                    onChange={chooseClip}
+                    className="hidden"
+                />
+
+                {clip && isStreaming && (
+                    <div className="flex gap-1 text-[11px] uppercase tracking-[0.16em] font-semibold pointer-events-auto">
+                        <button
+                            onClick={() => stepVideo(-1)}
+                            aria-label="Previous frame"
+                            className="rounded-full border border-white/30 px-2 py-1 text-white/70 hover:bg-white/10 transition-colors"
+                        >
+                            ‹
+                        </button>
+                        <button
+                            onClick={togglePlayback}
+                            className="rounded-full border border-white/30 px-3 py-1 text-white/70 hover:bg-white/10 transition-colors"
+                        >
+                            {isPaused ? 'Play' : 'Pause'}
+                        </button>
+                        <button
+                            onClick={() => stepVideo(1)}
+                            aria-label="Next frame"
+                            className="rounded-full border border-white/30 px-2 py-1 text-white/70 hover:bg-white/10 transition-colors"
+                        >
+                            ›
+                        </button>
+                        <button
+                            onClick={() => setLoop((value) => !value)}
+                            aria-pressed={loop}
+                            className={`rounded-full border px-3 py-1 transition-colors ${
+                                loop
+                                    ? 'bg-white text-black border-white/70'
+                                    : 'border-white/30 text-white/70 hover:bg-white/10'
+                            }`}
+                        >
+                            Loop
+                        </button>
+                        <button
+                            onClick={analyzeClip}
+                            className="rounded-full border border-white/30 px-3 py-1 text-white/70 hover:bg-white/10 transition-colors tabular-nums"
+                        >
+                            {analysisProgress === null
+                                ? 'Analyze'
+                                : `Cancel ${Math.round(analysisProgress * 100)}%`}
+                        </button>
+                    </div>
+                )}
+
                 <div className="inline-flex items-center gap-2 rounded-full border border-white/25 bg-black/60 px-3 py-1 text-[11px] uppercase tracking-[0.18em] pointer-events-auto">
                     <span
                         className={`h-1.5 w-1.5 rounded-full ${
@@ -279,15 +682,63 @@ export const HandController: React.FC<HandControllerProps> = ({ onUpdate, enable
                     />
                     <span className="metallic-white">
                         {permissionError
-                            ? 'Camera blocked'
+                            ? clip ? 'Video unavailable' : 'Camera blocked'
                             : isStreaming
-                                ? 'Hand camera live'
+                                ? clip ? 'Hand video live' : 'Hand camera live'
                                 : isLoaded
-                                    ? 'Waiting for camera'
+                                    ? clip ? 'Loading video' : 'Waiting for camera'
                                     : 'Loading hand AI'}
                     </span>
                 </div>
             </div>
+
+            {calibration && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+                    <div className="w-80 rounded border border-white/25 bg-black/80 p-6 text-center" role="dialog" aria-live="polite">
+                        <div className="text-[11px] uppercase tracking-[0.2em] text-white/60">
+                            {calibration.step === 'open'
+                                ? 'Calibration 1 / 2'
+                                : calibration.step === 'pinch'
+                                    ? 'Calibration 2 / 2'
+                                    : 'Calibration'}
+                        </div>
+                        <div className="mt-3 text-sm text-white">
+                            {calibration.step === 'done'
+                                ? 'Pinch calibrated for your hand and saved on this device.'
+                                : calibration.step === 'error'
+                                    ? calibration.message
+                                    : CALIBRATION_PROMPTS[calibration.step]}
+                        </div>
+                        <div className="mt-5 flex gap-2">
+                            {(calibration.step === 'done' || calibration.step === 'error') && (
+                                <button
+                                    onClick={calibration.step === 'error' ? startCalibration : () => setCalibration(null)}
+                                    className="flex-1 rounded-full border border-white/70 bg-white px-3 py-1.5 text-sm font-semibold text-black"
+                                >
+                                    {calibration.step === 'error' ? 'Try again' : 'Done'}
+                                </button>
+                            )}
+                            {calibration.step !== 'done' && (
+                                <button
+                                    onClick={() => {
+                                        calibrationRef.current = null;
+                                        setCalibration(null);
+                                    }}
+                                    className="flex-1 rounded-full border border-white/30 px-3 py-1.5 text-sm font-semibold text-white/70 hover:bg-white/10"
+                                >
+                                    Cancel
+                                </button>
+                            )}
+                        </div>
+                        <button
+                            onClick={resetCalibration}
+                            className="mt-3 text-[11px] uppercase tracking-[0.16em] text-white/50 hover:text-white/80"
+                        >
+                            Use default thresholds
+                        </button>
+                    </div>
+                </div>
+            )}
         </>
     );
 };
@@ -0,0 +1,421 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Observer } from "gsap/Observer";
+import {
+  createEmptyLevel,
+  isPointInRect,
+  Level,
+  parseLevel,
+  serializeLevel,
+} from "@/services/levels";
+import { Point, Rect } from "@/utils/types";
+import { clamp, downloadJson } from "@/utils/utils";
+
+type EditorTool = "target" | "obstacle" | "anchor" | "move" | "delete";
+
+const TOOLS: { id: EditorTool; label: string }[] = [
+  { id: "target", label: "Target" },
+  { id: "obstacle", label: "Obstacle" },
+  { id: "anchor", label: "Anchor zone" },
+  { id: "move", label: "Move" },
+  { id: "delete", label: "Delete" },
+];
+
+const DEFAULT_TARGET_RADIUS = 0.04;
+const MIN_RECT_SIZE = 0.01;
+
+type ItemRef =
+  | { kind: "target"; index: number }
+  | { kind: "obstacle"; index: number }
+  | { kind: "anchor" };
+
+interface DragState {
+  item: ItemRef;
+  /** "move" keeps the grab offset, "resize" spans a rect from `origin`. */
+  mode: "move" | "resize";
+  origin: Point;
+  offset: Point;
+}
+
+interface LevelEditorProps {
+  initialLevel: Level | null;
+  onPlay: (level: Level) => void;
+  onClose: () => void;
+}
+
+const toViewport = (x: number, y: number): Point => ({
+  x: Math.min(1, Math.max(0, x / window.innerWidth)),
+  y: Math.min(1, Math.max(0, y / window.innerHeight)),
+});
+
+// Keeps an item of the given size (0 for targets) fully inside the viewport
+const fitInViewport = ({ x, y }: Point, width = 0, height = 0): Point => ({
+  x: clamp(0, 1 - width, x),
+  y: clamp(0, 1 - height, y),
+});
+
+const spanRect = (a: Point, b: Point): Rect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+const rectStyle = (rect: Rect): React.CSSProperties => ({
+  left: `${rect.x * 100}%`,
+  top: `${rect.y * 100}%`,
+  width: `${rect.width * 100}%`,
+  height: `${rect.height * 100}%`,
+});
+
+/** Topmost item under a viewport-relative point: targets, obstacles, then the anchor zone. */
+const findItemAt = (level: Level, point: Point): ItemRef | null => {
+  const scale = Math.min(window.innerWidth, window.innerHeight);
+
+  for (let i = level.targets.length - 1; i >= 0; i--) {
+    const t = level.targets[i];
+    const dx = (t.x - point.x) * window.innerWidth;
+    const dy = (t.y - point.y) * window.innerHeight;
+    if (Math.hypot(dx, dy) <= t.radius * scale) return { kind: "target", index: i };
+  }
+  for (let i = level.obstacles.length - 1; i >= 0; i--) {
+    if (isPointInRect(point, level.obstacles[i])) return { kind: "obstacle", index: i };
+  }
+  if (level.anchorZone && isPointInRect(point, level.anchorZone)) return { kind: "anchor" };
+  return null;
+};
+
+const getItemPosition = (level: Level, item: ItemRef): Point => {
+  if (item.kind === "target") return level.targets[item.index];
+  if (item.kind === "obstacle") return level.obstacles[item.index];
+  return level.anchorZone ?? { x: 0, y: 0 };
+};
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ initialLevel, onPlay, onClose }) => {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const toolRef = useRef<EditorTool>("target");
+
+  const [level, setLevel] = useState<Level>(() => initialLevel ?? createEmptyLevel());
+  const [tool, setTool] = useState<EditorTool>("target");
+  const [error, setError] = useState<string | null>(null);
+  const levelRef = useRef(level);
+
+  const updateLevel = useCallback((update: (current: Level) => Level) => {
+    levelRef.current = update(levelRef.current);
+    setLevel(levelRef.current);
+  }, []);
+
+  useEffect(() => {
+    toolRef.current = tool;
+  }, [tool]);
+
+  // --- Pointer Editing ---
+  useEffect(() => {
+    if (!surfaceRef.current) return;
+
+    const moveItem = (item: ItemRef, position: Point) =>
+      updateLevel((current) => {
+        if (item.kind === "target") {
+          const targets = [...current.targets];
+          targets[item.index] = { ...targets[item.index], ...fitInViewport(position) };
+          return { ...current, targets };
+        }
+        if (item.kind === "obstacle") {
+          const obstacles = [...current.obstacles];
+          const obstacle = obstacles[item.index];
+          obstacles[item.index] = {
+            ...obstacle,
+            ...fitInViewport(position, obstacle.width, obstacle.height),
+          };
+          return { ...current, obstacles };
+        }
+        return current.anchorZone
+          ? {
+              ...current,
+              anchorZone: {
+                ...current.anchorZone,
+                ...fitInViewport(position, current.anchorZone.width, current.anchorZone.height),
+              },
+            }
+          : current;
+      });
+
+    const resizeItem = (item: ItemRef, rect: Rect) =>
+      updateLevel((current) => {
+        if (item.kind === "obstacle") {
+          const obstacles = [...current.obstacles];
+          obstacles[item.index] = rect;
+          return { ...current, obstacles };
+        }
+        return item.kind === "anchor" ? { ...current, anchorZone: rect } : current;
+      });
+
+    const deleteItem = (item: ItemRef) =>
+      updateLevel((current) => {
+        if (item.kind === "target") {
+          return { ...current, targets: current.targets.filter((_, i) => i !== item.index) };
+        }
+        if (item.kind === "obstacle") {
+          return { ...current, obstacles: current.obstacles.filter((_, i) => i !== item.index) };
+        }
+        return { ...current, anchorZone: null };
+      });
+
+    const observer = Observer.create({
+      target: surfaceRef.current,
+      type: "pointer,touch",
+      onPress: (e) => {
+        const point = toViewport(e.x, e.y);
+        const current = levelRef.current;
+        const hit = findItemAt(current, point);
+        const activeTool = toolRef.current;
+
+        if (activeTool === "delete") {
+          if (hit) deleteItem(hit);
+          return;
+        }
+
+        // Grabbing an existing item always moves it, whatever the tool
+        if (hit) {
+          const position = getItemPosition(current, hit);
+          dragRef.current = {
+            item: hit,
+            mode: "move",
+            origin: point,
+            offset: { x: position.x - point.x, y: position.y - point.y },
+          };
+          return;
+        }
+
+        if (activeTool === "target") {
+          updateLevel((level) => ({
+            ...level,
+            targets: [...level.targets, { ...point, radius: DEFAULT_TARGET_RADIUS }],
+          }));
+          dragRef.current = {
+            item: { kind: "target", index: current.targets.length },
+            mode: "move",
+            origin: point,
+            offset: { x: 0, y: 0 },
+          };
+        } else if (activeTool === "obstacle") {
+          updateLevel((level) => ({
+            ...level,
+            obstacles: [...level.obstacles, spanRect(point, point)],
+          }));
+          dragRef.current = {
+            item: { kind: "obstacle", index: current.obstacles.length },
+            mode: "resize",
+            origin: point,
+            offset: { x: 0, y: 0 },
+          };
+        } else if (activeTool === "anchor") {
+          updateLevel((level) => ({ ...level, anchorZone: spanRect(point, point) }));
+          dragRef.current = {
+            item: { kind: "anchor" },
+            mode: "resize",
+            origin: point,
+            offset: { x: 0, y: 0 },
+          };
+        }
+      },
+      onDrag: (e) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        const point = toViewport(e.x, e.y);
+        if (drag.mode === "resize") {
+          resizeItem(drag.item, spanRect(drag.origin, point));
+        } else {
+          moveItem(drag.item, { x: point.x + drag.offset.x, y: point.y + drag.offset.y });
+        }
+      },
+      onRelease: () => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        if (!drag || drag.mode !== "resize") return;
+
+        // A click without a drag leaves a zero-sized box behind; drop it
+        const current = levelRef.current;
+        const rect =
+          drag.item.kind === "obstacle" ? current.obstacles[drag.item.index] : current.anchorZone;
+        if (rect && (rect.width < MIN_RECT_SIZE || rect.height < MIN_RECT_SIZE)) {
+          deleteItem(drag.item);
+        }
+      },
+    });
+
+    return () => {
+      observer.kill();
+    };
+  }, [updateLevel]);
+
+  // --- Import / Export ---
+  const exportLevel = useCallback(() => {
+    const slug = levelRef.current.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    downloadJson(serializeLevel(levelRef.current), `${slug || "level"}.json`);
+  }, []);
+
+  const importLevel = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+
+      try {
+        const imported = parseLevel(await file.text());
+        updateLevel(() => imported);
+        setError(null);
+      } catch (err: any) {
+        setError(`Could not import ${file.name}: ${err.message}`);
+      }
+    },
+    [updateLevel]
+  );
+
+  const playLevel = useCallback(() => {
+    try {
+      // Round-trip through the parser so the editor can't start an invalid level
+      onPlay(parseLevel(serializeLevel(levelRef.current)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [onPlay]);
+
+  const scale = Math.min(window.innerWidth, window.innerHeight);
+
+  return (
+    <>
+      {/* Editing Surface */}
+      <div ref={surfaceRef} className="fixed inset-0 z-40 touch-none cursor-crosshair">
+        {level.anchorZone && (
+          <div
+            className="absolute border-2 border-dashed border-white/60 bg-white/5"
+            style={rectStyle(level.anchorZone)}
+          >
+            <span className="absolute top-1 left-2 text-[10px] uppercase tracking-[0.16em] text-white/60">
+              anchor zone
+            </span>
+          </div>
+        )}
+        {level.obstacles.map((obstacle, i) => (
+          <div key={`obstacle-${i}`} className="absolute bg-white/25 border border-white/60" style={rectStyle(obstacle)} />
+        ))}
+        {level.targets.map((target, i) => (
+          <div
+            key={`target-${i}`}
+            className="absolute rounded-full border border-white/70 bg-white/10"
+            style={{
+              left: `calc(${target.x * 100}% - ${target.radius * scale}px)`,
+              top: `calc(${target.y * 100}% - ${target.radius * scale}px)`,
+              width: target.radius * scale * 2,
+              height: target.radius * scale * 2,
+            }}
+          />
+        ))}
+      </div>
+
+      {/* Panel */}
+      <div className="fixed top-4 right-4 z-50 w-64 rounded border border-white/25 bg-black/80 p-3 text-xs text-white/80 backdrop-blur">
+        <div className="text-[11px] uppercase tracking-[0.2em] text-white/60">Level editor</div>
+
+        <div className="mt-3 flex flex-wrap gap-1">
+          {TOOLS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setTool(id)}
+              aria-pressed={tool === id}
+              className={`px-2 py-1 rounded-full border transition-colors ${
+                tool === id
+                  ? "bg-white text-black border-white/70"
+                  : "border-white/30 hover:bg-white/10"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <label className="mt-3 flex flex-col gap-1">
+          Name
+          <input
+            value={level.name}
+            onChange={(e) => updateLevel((l) => ({ ...l, name: e.target.value }))}
+            className="rounded border border-white/30 bg-transparent px-2 py-1"
+          />
+        </label>
+        <div className="mt-2 grid grid-cols-3 gap-2">
+          <label className="flex flex-col gap-1">
+            Shots
+            <input
+              type="number"
+              min={1}
+              placeholder="∞"
+              value={level.shots ?? ""}
+              onChange={(e) =>
+                updateLevel((l) => ({
+                  ...l,
+                  shots: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : null,
+                }))
+              }
+              className="rounded border border-white/30 bg-transparent px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Par
+            <input
+              type="number"
+              min={0}
+              value={level.par}
+              onChange={(e) => updateLevel((l) => ({ ...l, par: Math.max(0, Number(e.target.value)) }))}
+              className="rounded border border-white/30 bg-transparent px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Seconds
+            <input
+              type="number"
+              min={1}
+              value={level.duration}
+              onChange={(e) =>
+                updateLevel((l) => ({ ...l, duration: Math.max(1, Number(e.target.value)) }))
+              }
+              className="rounded border border-white/30 bg-transparent px-2 py-1"
+            />
+          </label>
+        </div>
+
+        {error && <div className="mt-3 rounded border border-white/30 bg-white/10 p-2">{error}</div>}
+
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="rounded-full border border-white/30 px-2 py-1 hover:bg-white/10"
+          >
+            Import
+          </button>
+          <button onClick={exportLevel} className="rounded-full border border-white/30 px-2 py-1 hover:bg-white/10">
+            Export
+          </button>
+          <button
+            onClick={playLevel}
+            className="rounded-full border border-white/70 bg-white px-2 py-1 font-semibold text-black"
+          >
+            Play
+          </button>
+          <button onClick={onClose} className="rounded-full border border-white/30 px-2 py-1 hover:bg-white/10">
+            Close
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={importLevel}
+          className="hidden"
+        />
+      </div>
+    </>
+  );
+};
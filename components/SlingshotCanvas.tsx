@@ -1,182 +1,661 @@
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import gsap from "gsap";
-import { Observer } from "gsap/Observer";
+import { GameOverlay } from "@/components/GameOverlay";
 import { HandController } from "@/components/HandController";
+import { LevelEditor } from "@/components/LevelEditor";
+import {
+  AssetPackSource,
+  BUILT_IN_PACK_SOURCES,
+  collectDroppedFiles,
+  collectInputFiles,
+  createPackSource,
+  DEFAULT_PACK_COLORS,
+  loadAssetPack,
+  PackCursor,
+} from "@/services/assetPacks";
+import { createGameSession, GameSession, GameSnapshot } from "@/services/game";
+import { createGamepadInputSource } from "@/services/gamepadInput";
+import { createGestureRegistry } from "@/services/gestures";
+import {
+  createPerformanceBudget,
+  PerformanceTier,
+  TIER_SETTINGS,
+} from "@/services/performance";
+import { createKeyboardInputSource, KeyboardAim } from "@/services/keyboardInput";
+import {
+  createReplayInputSource,
+  createSessionRecorder,
+  InputSession,
+  parseSession,
+  serializeSession,
+  SessionRecorder,
+} from "@/services/sessions";
+import {
+  createHandInputSource,
+  createPointerInputSource,
+  createTwoHandInputSource,
+  DEPTH_PULL_MODES,
+  DepthPullMode,
+  HandInputSource,
+} from "@/services/input";
+import { isPointInRect, Level } from "@/services/levels";
+import {
+  createExplosionParticles,
+  createPhysicsWorld,
+  createRng,
+  randomSeed,
+  DEFAULT_COLLISIONS,
+  DEFAULT_PHYSICS,
+  EXPLOSION_PATTERNS,
+  ExplosionPattern,
+  PATTERN_CHOICES,
+  PatternChoice,
+} from "@/services/physics";
+import {
+  createCanvasParticleRenderer,
+  createDomParticleRenderer,
+  ParticleRenderer,
+  ParticleRendererMode,
+} from "@/services/particleRenderer";
+import {
+  getLaunchVelocity,
+  hasProjectileLanded,
+  sampleTrajectory,
+  stepProjectile,
+  ProjectileState,
+} from "@/services/projectile";
 import {
-  PRELOAD_IMAGES_SRC,
-  EXPLOSION_IMAGES_SRC,
   AssetMap,
-  HandInputData,
+  InputEvent,
+  InputMode,
+  InputSource,
+  Point,
+  Rect,
 } from "@/utils/types";
+import { downloadJson, prefersReducedMotion } from "@/utils/utils";
 
-gsap.registerPlugin(Observer);
 
 // Helper to clone SVG nodes safely
 const createSVGElement = (tag: string) =>
   document.createElementNS("http://www.w3.org/2000/svg", tag);
 
-const pickRandomKey = (keys: string[]) =>
-  keys[Math.floor(Math.random() * keys.length)];
+const INPUT_MODES: { mode: InputMode; label: string }[] = [
+  { mode: "mouse", label: "Mouse" },
+  { mode: "hand", label: "Hand AI" },
+  { mode: "gamepad", label: "Gamepad" },
+  { mode: "keyboard", label: "Keyboard" },
+];
+
+const INSTRUCTIONS: Record<InputMode, string> = {
+  mouse: "Click and drag",
+  hand: "Pinch to drag",
+  gamepad: "Hold trigger, aim with right stick",
+  keyboard: "Arrows move, Space pulls",
+};
 
-export const SlingshotCanvas: React.FC = () => {
+const TWO_HANDED_INSTRUCTIONS = "Pinch to anchor, pinch other hand to pull";
+
+// Central part of the camera frame used as a "virtual trackpad"
+const TRACKPAD_ZONE: Rect = { x: 0.25, y: 0.2, width: 0.5, height: 0.5 };
+
+// How long an open palm must be held before it clears the screen
+const OPEN_PALM_HOLD_MS = 600;
+
+// Size of a projectile when testing it against targets
+const PROJECTILE_HIT_RADIUS = 25;
+
+/** One in-progress pull. Every pointer, hand or device gets its own. */
+interface Slingshot {
+  startX: number;
+  startY: number;
+  lastDistance: number;
+  lastAngle: number;
+  /** Hand cursor sprite that follows this pull, if any. */
+  cursorIndex: number | null;
+  line: SVGLineElement;
+  trajectory: SVGPathElement;
+  circle: SVGCircleElement;
+  image: SVGImageElement;
+}
+
+/** One on-screen hand cursor and its swappable parts. */
+interface CursorSprite {
+  root: HTMLDivElement | null;
+  drag: HTMLImageElement | null;
+  rock: HTMLImageElement | null;
+  handle: HTMLImageElement | null;
+  instructions: HTMLElement | null;
+  setX: ((value: number) => void) | null;
+  setY: ((value: number) => void) | null;
+}
+
+// Two hands can play side by side, each with its own cursor
+const CURSOR_COUNT = 2;
+
+const createCursorSprite = (): CursorSprite => ({
+  root: null,
+  drag: null,
+  rock: null,
+  handle: null,
+  instructions: null,
+  setX: null,
+  setY: null,
+});
+
+interface SlingshotCanvasProps {
+  /** Seed for every random choice in the session. Random when omitted. */
+  seed?: number;
+  /** Maximum number of live explosion particles. */
+  maxParticles?: number;
+  /** Draw particles on one <canvas>, or as pooled <img> nodes. */
+  particleRenderer?: ParticleRendererMode;
+  /** Start the session with confetti bouncing off the viewport edges. */
+  collisions?: boolean;
+  /** Initial burst pattern; "random" picks a new one for every shot. */
+  pattern?: PatternChoice;
+}
+
+export const SlingshotCanvas: React.FC<SlingshotCanvasProps> = ({
+  seed,
+  maxParticles = DEFAULT_PHYSICS.maxParticles,
+  particleRenderer = "canvas",
+  collisions = false,
+  pattern = "burst",
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<SVGSVGElement>(null);
-  const handRef = useRef<HTMLDivElement>(null);
+  const particleCanvasRef = useRef<HTMLCanvasElement>(null);
+  const particleLayerRef = useRef<HTMLDivElement>(null);
+  const rendererRef = useRef<ParticleRenderer | null>(null);
+  const cursorsRef = useRef(Array.from({ length: CURSOR_COUNT }, createCursorSprite));
   const proxyRef = useRef<HTMLDivElement>(null);
-  const releaseTimeoutRef = useRef<number | null>(null);
-
-  // Element Refs for Slingshot Parts
-  const rockRef = useRef<HTMLImageElement>(null);
-  const dragRef = useRef<HTMLImageElement>(null);
-  const handleRef = useRef<HTMLImageElement>(null);
-  const instructionsRef = useRef<HTMLElement>(null);
+  const projectileTickersRef = useRef(new Set<() => void>());
+  const gameUnsubscribeRef = useRef<(() => void) | null>(null);
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
 
   // State
-  const [isHandMode, setIsHandMode] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>("mouse");
+  const [handSource, setHandSource] = useState<HandInputSource | null>(null);
+  const [gamepadConnected, setGamepadConnected] = useState(false);
+  const [keyboardAim, setKeyboardAim] = useState<KeyboardAim | null>(null);
+  const [twoHanded, setTwoHanded] = useState(false);
+  const [trackpad, setTrackpad] = useState(false);
+  const [gestures] = useState(createGestureRegistry);
+  const [budget] = useState(() => createPerformanceBudget());
+  const [performanceTier, setPerformanceTier] = useState<PerformanceTier>(budget.getTier);
+  const [announcement, setAnnouncement] = useState("");
+  const isHandMode = inputMode === "hand";
   const [assetsLoaded, setAssetsLoaded] = useState(false);
+  const [sessionSeed] = useState(() => seed ?? randomSeed());
+  const [collisionsEnabled, setCollisionsEnabled] = useState(collisions);
+  const [patternChoice, setPatternChoice] = useState<PatternChoice>(pattern);
+  const [depthPullMode, setDepthPullMode] = useState<DepthPullMode>("off");
+  const [game, setGame] = useState<GameSnapshot | null>(null);
+  const [level, setLevel] = useState<Level | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [packSources, setPackSources] = useState<AssetPackSource[]>(BUILT_IN_PACK_SOURCES);
+  const [packIndex, setPackIndex] = useState(0);
+  const [cursorImages, setCursorImages] = useState<PackCursor | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const activePack = packSources[packIndex];
+  const [isRecording, setIsRecording] = useState(false);
+  const [replay, setReplay] = useState<InputSession | null>(null);
+  // Sessions store these settings, so they can't change mid-session
+  const settingsLocked = isRecording || !!replay;
 
   // Logic Refs (Mutable state for animation loop)
   const state = useRef({
-    isDrawing: false,
-    startX: 0,
-    startY: 0,
-    lastDistance: 0,
+    slingshots: new Map<string, Slingshot>(),
+    patternChoice: pattern,
+    depthPullMode: "off" as DepthPullMode,
     imageMap: {} as AssetMap,
     imageKeys: [] as string[],
     explosionMap: {} as AssetMap,
     explosionKeys: [] as string[],
-    currentLine: null as SVGLineElement | null,
-    startImage: null as SVGImageElement | null,
-    circle: null as SVGCircleElement | null,
-    handPos: { x: 0, y: 0 },
+    colors: DEFAULT_PACK_COLORS,
+    packSources: BUILT_IN_PACK_SOURCES,
+    recorder: null as SessionRecorder | null,
+    rng: createRng(sessionSeed),
+    world: createPhysicsWorld({ maxParticles }),
+    game: null as GameSession | null,
+    gameLevel: null as Level | null,
+    isEditing: false,
   });
 
-  // GSAP Setters
-  const xSetter = useRef<((value: number) => void) | null>(null);
-  const ySetter = useRef<((value: number) => void) | null>(null);
+  const getCursor = (index: number | null) =>
+    index === null ? null : cursorsRef.current[index] ?? null;
 
   // --- Initialization ---
   useEffect(() => {
-    let isMounted = true;
+    // Initialize Hand Setters
+    cursorsRef.current.forEach((sprite) => {
+      if (!sprite.root) return;
+      sprite.setX = gsap.quickTo(sprite.root, "x", { duration: 0.1 });
+      sprite.setY = gsap.quickTo(sprite.root, "y", { duration: 0.1 });
+      gsap.set(sprite.root, { xPercent: -50, yPercent: -50 });
+    });
 
-    // Preload Images
-    const loadImages = async () => {
-      const load = (src: string) =>
-        new Promise<HTMLImageElement | null>((resolve) => {
-          const img = new Image();
-          img.src = src;
-          img.onload = () => resolve(img);
-          img.onerror = () => resolve(null);
-        });
-
-      const imgMap: AssetMap = {};
-      const imgKeys: string[] = [];
-      const expMap: AssetMap = {};
-      const expKeys: string[] = [];
-
-      await Promise.all([
-        ...PRELOAD_IMAGES_SRC.map(async (p) => {
-          const img = await load(p.src);
-          if (img) {
-            imgMap[p.key] = img;
-            imgKeys.push(p.key);
-          }
-        }),
-        ...EXPLOSION_IMAGES_SRC.map(async (p) => {
-          const img = await load(p.src);
-          if (img) {
-            expMap[p.key] = img;
-            expKeys.push(p.key);
-          }
-        }),
-      ]);
+    // Step explosion physics and draw the result
+    const { world } = state.current;
+    const tickParticles: gsap.TickerCallback = (time, deltaTime) => {
+      budget.recordFrame(deltaTime, time * 1000);
+      world.advance(deltaTime / 1000);
+      rendererRef.current?.render(world.particles);
+    };
+    gsap.ticker.add(tickParticles);
 
-      if (!isMounted) return;
+    // The round's clock and particle hits follow the fixed step, like replays
+    const unsubscribeGame = world.onStep((dt) => {
+      const { game } = state.current;
+      if (!game) return;
 
-      state.current.imageMap = imgMap;
-      state.current.imageKeys = imgKeys;
-      state.current.explosionMap = expMap;
-      state.current.explosionKeys = expKeys;
-      setAssetsLoaded(true);
+      game.update(dt);
+      world.particles.forEach((p) => {
+        const radius = p.size / 2;
+        game.testHit(p.x + radius, p.y + radius, radius, "particle", p.shot);
+      });
+    });
+
+    return () => {
+      gsap.ticker.remove(tickParticles);
+      unsubscribeGame();
+      world.clear();
+      gameUnsubscribeRef.current?.();
+      projectileTickersRef.current.forEach((stop) => stop());
+      projectileTickersRef.current.clear();
     };
+  }, []);
+
+  // --- Particle Rendering ---
+  useEffect(() => {
+    const getSprite = (key: string) => state.current.explosionMap[key];
+    const canvasRenderer =
+      particleRenderer === "canvas" && particleCanvasRef.current
+        ? createCanvasParticleRenderer(particleCanvasRef.current, getSprite)
+        : null;
 
-    loadImages();
+    if (!canvasRenderer && !particleLayerRef.current) return;
 
-    // Initialize Hand Setters
-    if (handRef.current) {
-      xSetter.current = gsap.quickTo(handRef.current, "x", { duration: 0.1 });
-      ySetter.current = gsap.quickTo(handRef.current, "y", { duration: 0.1 });
-      gsap.set(handRef.current, { xPercent: -50, yPercent: -50 });
+    const renderer =
+      canvasRenderer ?? createDomParticleRenderer(particleLayerRef.current!, getSprite);
+    rendererRef.current = renderer;
+
+    return () => {
+      renderer.destroy();
+      if (rendererRef.current === renderer) rendererRef.current = null;
+    };
+  }, [particleRenderer]);
+
+  // The performance tier may lower the particle cap below the prop
+  useEffect(() => {
+    state.current.world.config.maxParticles = Math.min(
+      maxParticles,
+      TIER_SETTINGS[performanceTier].maxParticles
+    );
+  }, [maxParticles, performanceTier]);
+
+  useEffect(() => budget.subscribe(setPerformanceTier), [budget]);
+
+  // --- Viewport Collisions ---
+  useEffect(() => {
+    const { config } = state.current.world;
+
+    if (!collisionsEnabled) {
+      config.collisions = null;
+      return;
     }
 
+    const updateBounds = () => {
+      config.collisions = {
+        ...DEFAULT_COLLISIONS,
+        width: window.innerWidth,
+        height: window.innerHeight,
+      };
+    };
+
+    updateBounds();
+    window.addEventListener("resize", updateBounds);
+
+    return () => {
+      window.removeEventListener("resize", updateBounds);
+    };
+  }, [collisionsEnabled]);
+
+  const clearParticles = useCallback(() => {
+    state.current.world.clear();
+  }, []);
+
+  // --- Asset Packs ---
+  useEffect(() => {
+    let isMounted = true;
+    setAssetsLoaded(false);
+
+    loadAssetPack(activePack).then((loaded) => {
+      if (!isMounted) return;
+
+      state.current.imageMap = loaded.projectiles.images;
+      state.current.imageKeys = loaded.projectiles.keys;
+      state.current.explosionMap = loaded.confetti.images;
+      state.current.explosionKeys = loaded.confetti.keys;
+      state.current.colors = loaded.colors;
+      // Confetti in flight may use keys the new pack doesn't have
+      state.current.world.clear();
+      setCursorImages(loaded.cursor);
+      setAssetsLoaded(true);
+    });
+
     return () => {
       isMounted = false;
-      if (releaseTimeoutRef.current) {
-        window.clearTimeout(releaseTimeoutRef.current);
-        releaseTimeoutRef.current = null;
-      }
     };
+  }, [activePack]);
+
+  useEffect(() => {
+    state.current.packSources = packSources;
+  }, [packSources]);
+
+  useEffect(
+    () => () => state.current.packSources.forEach((source) => source.dispose?.()),
+    []
+  );
+
+  const cyclePack = useCallback(() => {
+    setPackIndex((index) => (index + 1) % state.current.packSources.length);
+  }, []);
+
+  // Validates the whole pack up front so a bad file never half-applies
+  const addPack = useCallback(async (files: Promise<Map<string, Blob>>) => {
+    let source: AssetPackSource | null = null;
+    try {
+      source = await createPackSource(await files);
+      await loadAssetPack(source, true);
+    } catch (err: any) {
+      source?.dispose?.();
+      setFileError(err.message);
+      return;
+    }
+
+    const sources = [...state.current.packSources, source];
+    state.current.packSources = sources;
+    setFileError(null);
+    setPackSources(sources);
+    setPackIndex(sources.length - 1);
+  }, []);
+
+  const handlePackDragOver = useCallback((event: React.DragEvent) => {
+    if (event.dataTransfer.types.includes("Files")) event.preventDefault();
+  }, []);
+
+  const handlePackDrop = useCallback(
+    (event: React.DragEvent) => {
+      if (!event.dataTransfer.types.includes("Files")) return;
+      event.preventDefault();
+      if (state.current.game || state.current.isEditing || settingsLocked) {
+        setFileError("Leave the game, editor or session before loading a pack.");
+        return;
+      }
+      addPack(collectDroppedFiles(event.dataTransfer));
+    },
+    [addPack, settingsLocked]
+  );
+
+  const importPack = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const { files } = event.target;
+      if (files?.length) addPack(Promise.resolve(collectInputFiles(files)));
+      event.target.value = "";
+    },
+    [addPack]
+  );
+
+  useEffect(() => {
+    state.current.patternChoice = patternChoice;
+  }, [patternChoice]);
+
+  useEffect(() => {
+    state.current.depthPullMode = depthPullMode;
+  }, [depthPullMode]);
+
+  // --- Game Mode ---
+  const startGame = useCallback((gameLevel: Level | null = null) => {
+    gameUnsubscribeRef.current?.();
+
+    const session = createGameSession(
+      createRng(state.current.rng.int()),
+      state.current.imageKeys,
+      {},
+      gameLevel
+    );
+    gameUnsubscribeRef.current = session.subscribe(setGame);
+    state.current.game = session;
+    state.current.gameLevel = gameLevel;
+    session.start(window.innerWidth, window.innerHeight);
+    state.current.world.config.obstacles = [...session.getSnapshot().obstacles];
+  }, []);
+
+  const restartGame = useCallback(() => {
+    startGame(state.current.gameLevel);
+  }, [startGame]);
+
+  const exitGame = useCallback(() => {
+    gameUnsubscribeRef.current?.();
+    gameUnsubscribeRef.current = null;
+    state.current.game = null;
+    state.current.gameLevel = null;
+    state.current.world.config.obstacles = [];
+    setGame(null);
+  }, []);
+
+  // --- Level Editor ---
+  useEffect(() => {
+    state.current.isEditing = isEditing;
+  }, [isEditing]);
+
+  const openEditor = useCallback(() => {
+    exitGame();
+    setIsEditing(true);
+  }, [exitGame]);
+
+  const playLevel = useCallback(
+    (edited: Level) => {
+      setLevel(edited);
+      setIsEditing(false);
+      startGame(edited);
+    },
+    [startGame]
+  );
+
+  // --- Session Recording ---
+  const startRecording = useCallback(() => {
+    // Reseed from the current RNG so the recording starts from a known state
+    const seed = state.current.rng.int();
+    state.current.rng = createRng(seed);
+    // A running round restarts from the new seed, as it will on replay
+    const { game: session, gameLevel } = state.current;
+    if (session) startGame(gameLevel);
+    state.current.recorder = createSessionRecorder({
+      seed,
+      mode: inputMode,
+      twoHanded: inputMode === "hand" && twoHanded,
+      settings: {
+        pattern: patternChoice,
+        bounce: collisionsEnabled,
+        depthPull: depthPullMode,
+        trackpad,
+        pack: activePack.pack.name,
+        game: session ? { level: gameLevel } : null,
+      },
+    });
+    setIsRecording(true);
+  }, [
+    inputMode,
+    twoHanded,
+    patternChoice,
+    collisionsEnabled,
+    depthPullMode,
+    trackpad,
+    activePack,
+    startGame,
+  ]);
+
+  const stopRecording = useCallback(() => {
+    const { recorder } = state.current;
+    if (!recorder) return;
+    state.current.recorder = null;
+    setIsRecording(false);
+
+    const session = recorder.stop();
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    downloadJson(serializeSession(session), `session-${session.mode}-${stamp}.json`);
+  }, []);
+
+  // A recording covers one input source; switching saves what was captured
+  useEffect(() => stopRecording, [inputMode, twoHanded, stopRecording]);
+
+  const startReplay = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+
+      try {
+        const session = parseSession(await file.text());
+        const { settings } = session;
+        // Sprite keys feed the RNG, so a different pack plays differently
+        if (settings.pack !== activePack.pack.name) {
+          throw new Error(`switch to the "${settings.pack}" pack first.`);
+        }
+        setPatternChoice(settings.pattern);
+        setDepthPullMode(settings.depthPull);
+        setCollisionsEnabled(settings.bounce);
+        setTrackpad(settings.trackpad);
+        setIsEditing(false);
+        setFileError(null);
+        setReplay(session);
+      } catch (err: any) {
+        setFileError(`Could not replay ${file.name}: ${err.message}`);
+      }
+    },
+    [activePack]
+  );
+
+  const getSpriteSrc = useCallback(
+    (key: string) => state.current.imageMap[key]?.src,
+    []
+  );
+
+  const cyclePattern = useCallback(() => {
+    setPatternChoice(
+      (current) =>
+        PATTERN_CHOICES[(PATTERN_CHOICES.indexOf(current) + 1) % PATTERN_CHOICES.length]
+    );
   }, []);
 
   // --- Animation & Logic Methods ---
 
+  // Projectiles burst on the level's obstacles
+  const isInObstacle = useCallback(
+    (point: Point) =>
+      state.current.world.config.obstacles.some((rect) => isPointInRect(point, rect)),
+    []
+  );
+
   const createExplosion = useCallback(
-    (x: number, y: number, distance: number = 100) => {
-      if (!containerRef.current || !state.current.explosionKeys.length) return;
-
-      const count = Math.round(gsap.utils.clamp(3, 40, distance / 10));
-      const angleSpread = Math.PI * 2;
-      const speed = gsap.utils.mapRange(0, 500, 0.3, 2.5, distance);
-      const sizeRange = gsap.utils.mapRange(0, 500, 20, 60, distance);
-
-      for (let i = 0; i < count; i++) {
-        const randomKey = pickRandomKey(state.current.explosionKeys);
-        const original = state.current.explosionMap[randomKey];
-        if (!original) continue;
-
-        const img = original.cloneNode(true) as HTMLImageElement;
-        img.className = "absolute pointer-events-none z-10 will-change-transform";
-        const size = gsap.utils.random(20, sizeRange);
-        img.style.height = `${size}px`;
-        img.style.left = `${x}px`;
-        img.style.top = `${y}px`;
-        containerRef.current.appendChild(img);
-
-        const angle = Math.random() * angleSpread;
-        const velocity = gsap.utils.random(300, 800) * speed;
-
-        // Simulate Physics2D
-        // X motion
-        gsap.to(img, {
-          x: Math.cos(angle) * velocity,
-          duration: 1 + Math.random(),
-          ease: "power1.out",
-        });
-
-        // Y motion (Velocity + Gravity)
-        gsap.to(img, {
-          y: Math.sin(angle) * velocity + 800, // +800 simulates gravity drop
-          duration: 1 + Math.random(),
-          ease: "power1.out", // Initial burst
-          onComplete: () => img.remove(),
-        });
-
-        // Rotation and Opacity
-        gsap.to(img, {
-          rotation: gsap.utils.random(-180, 180),
-          opacity: 0,
-          delay: 0.5,
-          duration: 0.5,
-        });
-      }
+    (
+      x: number,
+      y: number,
+      distance: number = 100,
+      angle?: number,
+      pattern: ExplosionPattern = "burst",
+      shot: number | null = null
+    ) => {
+      if (!state.current.explosionKeys.length) return;
+
+      // Each burst gets its own seed so it can be replayed in isolation
+      const particles = createExplosionParticles(
+        {
+          x,
+          y,
+          distance,
+          angle,
+          pattern,
+          keys: state.current.explosionKeys,
+          reducedMotion: prefersReducedMotion(),
+          shot,
+        },
+        createRng(state.current.rng.int())
+      );
+
+      state.current.world.add(particles);
     },
     []
   );
 
+  const launchProjectile = useCallback(
+    (
+      image: SVGImageElement,
+      x: number,
+      y: number,
+      angle: number,
+      distance: number,
+      pattern: ExplosionPattern,
+      shot: number | null
+    ) => {
+      const velocity = getLaunchVelocity(angle, distance);
+      const projectile: ProjectileState = {
+        x,
+        y,
+        vx: velocity.x,
+        vy: velocity.y,
+        age: 0,
+      };
+
+      // Stepped with the particles, so seeded replays fly the same path
+      const unsubscribe = state.current.world.onStep((dt) => {
+        stepProjectile(projectile, dt);
+        gsap.set(image, { x: projectile.x - x, y: projectile.y - y });
+
+        const hitTarget = state.current.game?.testHit(
+          projectile.x,
+          projectile.y,
+          PROJECTILE_HIT_RADIUS,
+          "projectile",
+          shot
+        );
+        const hitObstacle = isInObstacle(projectile);
+        if (
+          !hitTarget &&
+          !hitObstacle &&
+          !hasProjectileLanded(projectile, window.innerWidth, window.innerHeight)
+        ) {
+          return;
+        }
+
+        stop();
+        createExplosion(
+          gsap.utils.clamp(0, window.innerWidth, projectile.x),
+          gsap.utils.clamp(0, window.innerHeight, projectile.y),
+          distance,
+          angle,
+          pattern,
+          shot
+        );
+      });
+      const stop = () => {
+        unsubscribe();
+        image.remove();
+        projectileTickersRef.current.delete(stop);
+      };
+
+      projectileTickersRef.current.add(stop);
+    },
+    [createExplosion, isInObstacle]
+  );
+
   const startDrawing = useCallback(
-    (x: number, y: number) => {
+    (id: string, x: number, y: number, cursorIndex: number | null) => {
       if (
-        state.current.isDrawing ||
+        state.current.slingshots.has(id) ||
         !canvasRef.current ||
         !assetsLoaded ||
         !state.current.imageKeys.length
@@ -184,18 +663,20 @@ export const SlingshotCanvas: React.FC = () => {
         return;
       }
 
-      const randomKey = pickRandomKey(state.current.imageKeys);
+      if (state.current.isEditing) return;
+      if (state.current.game && !state.current.game.canShootFrom({ x, y })) return;
+
+      const randomKey = state.current.rng.pick(state.current.imageKeys);
       const original = state.current.imageMap[randomKey];
       if (!original) return;
 
-      state.current.isDrawing = true;
-      state.current.startX = x;
-      state.current.startY = y;
-
-      if (instructionsRef.current) gsap.to(instructionsRef.current, { opacity: 0, duration: 0.2 });
-      if (dragRef.current) gsap.set(dragRef.current, { opacity: 1 });
-      if (handleRef.current) gsap.set(handleRef.current, { opacity: 1 });
-      if (rockRef.current) gsap.set(rockRef.current, { opacity: 0 });
+      const sprite = getCursor(cursorIndex);
+      if (sprite) {
+        if (sprite.instructions) gsap.to(sprite.instructions, { opacity: 0, duration: 0.2 });
+        if (sprite.drag) gsap.set(sprite.drag, { opacity: 1 });
+        if (sprite.handle) gsap.set(sprite.handle, { opacity: 1 });
+        if (sprite.rock) gsap.set(sprite.rock, { opacity: 0 });
+      }
 
       // SVG Line
       const line = createSVGElement("line") as SVGLineElement;
@@ -203,18 +684,25 @@ export const SlingshotCanvas: React.FC = () => {
       line.setAttribute("y1", y.toString());
       line.setAttribute("x2", x.toString());
       line.setAttribute("y2", y.toString());
-      line.setAttribute("stroke", "#fffce1");
+      line.setAttribute("stroke", state.current.colors.line);
       line.setAttribute("stroke-width", "2");
       line.setAttribute("stroke-dasharray", "4");
-      state.current.currentLine = line;
+
+      // SVG Path (Predicted trajectory)
+      const trajectory = createSVGElement("path") as SVGPathElement;
+      trajectory.setAttribute("fill", "none");
+      trajectory.setAttribute("stroke", state.current.colors.trajectory);
+      trajectory.setAttribute("stroke-width", "4");
+      trajectory.setAttribute("stroke-linecap", "round");
+      trajectory.setAttribute("stroke-dasharray", "0 14");
+      trajectory.setAttribute("opacity", "0.6");
 
       // SVG Circle (Anchor)
       const circle = createSVGElement("circle") as SVGCircleElement;
       circle.setAttribute("cx", x.toString());
       circle.setAttribute("cy", y.toString());
       circle.setAttribute("r", "30");
-      circle.setAttribute("fill", "#0e100f");
-      state.current.circle = circle;
+      circle.setAttribute("fill", state.current.colors.anchor);
 
       // Random Content Image
       const clone = createSVGElement("image") as SVGImageElement;
@@ -223,196 +711,343 @@ export const SlingshotCanvas: React.FC = () => {
       clone.setAttribute("width", "50");
       clone.setAttribute("height", "50");
       clone.setAttributeNS("http://www.w3.org/1999/xlink", "href", original.src);
-      state.current.startImage = clone;
 
+      canvasRef.current.appendChild(trajectory);
       canvasRef.current.appendChild(line);
       canvasRef.current.appendChild(circle);
       canvasRef.current.appendChild(clone);
+
+      state.current.slingshots.set(id, {
+        startX: x,
+        startY: y,
+        lastDistance: 0,
+        lastAngle: 0,
+        cursorIndex,
+        line,
+        trajectory,
+        circle,
+        image: clone,
+      });
     },
     [assetsLoaded]
   );
 
-  const updateDrawing = useCallback((x: number, y: number) => {
-    if (
-      !state.current.isDrawing ||
-      !state.current.currentLine ||
-      !state.current.startImage ||
-      !state.current.circle
-    )
-      return;
+  const updateDrawing = useCallback((
+    id: string,
+    x: number,
+    y: number,
+    anchor?: Point,
+    depthPull?: number
+  ) => {
+    const slingshot = state.current.slingshots.get(id);
+    if (!slingshot) return;
+
+    // Follow an externally held anchor (two-handed slingshot)
+    if (anchor && (anchor.x !== slingshot.startX || anchor.y !== slingshot.startY)) {
+      slingshot.startX = anchor.x;
+      slingshot.startY = anchor.y;
+      slingshot.line.setAttribute("x1", anchor.x.toString());
+      slingshot.line.setAttribute("y1", anchor.y.toString());
+      slingshot.circle.setAttribute("cx", anchor.x.toString());
+      slingshot.circle.setAttribute("cy", anchor.y.toString());
+      slingshot.image.setAttribute("x", (anchor.x - 25).toString());
+      slingshot.image.setAttribute("y", (anchor.y - 25).toString());
+    }
 
-    const dx = x - state.current.startX;
-    const dy = y - state.current.startY;
+    const dx = x - slingshot.startX;
+    const dy = y - slingshot.startY;
     let distance = Math.sqrt(dx * dx + dy * dy);
     const safeDistance = Math.max(distance, 0.001);
 
     // Visual logic from original script
     let shrink = (safeDistance - 30) / safeDistance;
-    let x2 = state.current.startX + dx * shrink;
-    let y2 = state.current.startY + dy * shrink;
+    let x2 = slingshot.startX + dx * shrink;
+    let y2 = slingshot.startY + dy * shrink;
 
     if (distance < 30) {
-      x2 = state.current.startX;
-      y2 = state.current.startY;
+      x2 = slingshot.startX;
+      y2 = slingshot.startY;
     }
 
-    let angle = Math.atan2(dy, dx) * (180 / Math.PI);
+    // Optional depth control: moving the hand toward the camera adds power
+    const { depthPullMode } = state.current;
+    const usesDepth = depthPull !== undefined && depthPullMode !== "off";
+    const power = !usesDepth
+      ? distance
+      : depthPullMode === "add"
+        ? distance + depthPull
+        : depthPull;
+
+    // A pure depth pull with no on-screen drag to aim by fires straight up
+    const angleRad =
+      usesDepth && depthPullMode === "replace" && distance < 10
+        ? Math.PI / 2
+        : Math.atan2(dy, dx);
+    let angle = angleRad * (180 / Math.PI);
 
     // Update Line
-    state.current.currentLine.setAttribute("x2", x2.toString());
-    state.current.currentLine.setAttribute("y2", y2.toString());
+    slingshot.line.setAttribute("x2", x2.toString());
+    slingshot.line.setAttribute("y2", y2.toString());
+
+    // Update Trajectory Preview, ending where the shot would burst
+    const { game } = state.current;
+    const points = sampleTrajectory(
+      { x: slingshot.startX, y: slingshot.startY },
+      getLaunchVelocity(angleRad, power),
+      window.innerWidth,
+      window.innerHeight,
+      state.current.world.config.timestep,
+      (point) =>
+        isInObstacle(point) || !!game?.overlapsTarget(point.x, point.y, PROJECTILE_HIT_RADIUS)
+    );
+    slingshot.trajectory.setAttribute(
+      "d",
+      points.map((p, i) => `${i ? "L" : "M"}${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(" ")
+    );
 
     // Update Image & Circle Scale
-    let raw = distance / 100;
+    let raw = power / 100;
     let eased = Math.pow(raw, 0.5);
     let clamped = gsap.utils.clamp(1, 100, eased); // Clamper logic
 
-    gsap.set([state.current.startImage, state.current.circle], {
+    gsap.set([slingshot.image, slingshot.circle], {
       scale: clamped,
       rotation: `${angle - 45}_short`, // _short ensures shortest rotation path
       transformOrigin: "center center",
     });
 
     // Rotate Hand
-    if (handRef.current) {
-      gsap.to(handRef.current, {
+    const sprite = getCursor(slingshot.cursorIndex);
+    if (sprite?.root) {
+      gsap.to(sprite.root, {
         rotation: `${angle - 90}_short`,
         duration: 0.1,
         ease: "none",
       });
     }
 
-    state.current.lastDistance = distance;
-  }, []);
-
-  const endDrawing = useCallback(() => {
-    if (!state.current.isDrawing) return;
+    slingshot.lastDistance = power;
+    slingshot.lastAngle = angleRad;
+  }, [isInObstacle]);
+
+  const endDrawing = useCallback((id: string) => {
+    const slingshot = state.current.slingshots.get(id);
+    if (!slingshot) return;
+
+    state.current.slingshots.delete(id);
+    const shot = state.current.game?.registerShot() ?? null;
+
+    const sprite = getCursor(slingshot.cursorIndex);
+    if (sprite) {
+      // Reset Hand UI
+      if (sprite.drag) gsap.set(sprite.drag, { opacity: 0 });
+      if (sprite.handle) gsap.set(sprite.handle, { opacity: 0 });
+      if (sprite.rock) gsap.set(sprite.rock, { opacity: 1 });
+
+      const finishReload = () => {
+        if (sprite.rock) gsap.set(sprite.rock, { opacity: 0 });
+        if (sprite.root)
+          gsap.set(sprite.root, { rotation: 0, overwrite: "auto" });
+        if (sprite.instructions)
+          gsap.to(sprite.instructions, { opacity: 1 });
+        if (sprite.drag) gsap.set(sprite.drag, { opacity: 1 });
+      };
+
+      // Wiggle effect for "reloading" (Simplified wiggle without custom plugin)
+      if (sprite.rock && !prefersReducedMotion()) {
+        gsap.fromTo(
+          sprite.rock,
+          { rotation: -20 },
+          {
+            duration: 0.5,
+            rotation: 0,
+            ease: "elastic.out(1, 0.3)",
+            onComplete: finishReload,
+          }
+        );
+      } else {
+        finishReload();
+      }
+    }
 
-    // Create Explosion
-    createExplosion(
-      state.current.startX,
-      state.current.startY,
-      state.current.lastDistance
+    // Cleanup this slingshot's SVG only. Its content image stays behind as
+    // the projectile, and other pulls or projectiles may share the canvas.
+    slingshot.line.remove();
+    slingshot.trajectory.remove();
+    slingshot.circle.remove();
+    launchProjectile(
+      slingshot.image,
+      slingshot.startX,
+      slingshot.startY,
+      slingshot.lastAngle,
+      slingshot.lastDistance,
+      state.current.patternChoice === "random"
+        ? state.current.rng.pick(EXPLOSION_PATTERNS)
+        : state.current.patternChoice,
+      shot
     );
+  }, [launchProjectile]);
 
-    // Reset Hand UI
-    if (dragRef.current) gsap.set(dragRef.current, { opacity: 0 });
-    if (handleRef.current) gsap.set(handleRef.current, { opacity: 0 });
-    if (rockRef.current) gsap.set(rockRef.current, { opacity: 1 });
-
-    // Wiggle effect for "reloading" (Simplified wiggle without custom plugin)
-    if (rockRef.current) {
-      gsap.fromTo(
-        rockRef.current,
-        { rotation: -20 },
-        {
-          duration: 0.5,
-          rotation: 0,
-          ease: "elastic.out(1, 0.3)",
-          onComplete: () => {
-            if (rockRef.current) gsap.set(rockRef.current, { opacity: 0 });
-            if (handRef.current)
-              gsap.set(handRef.current, { rotation: 0, overwrite: "auto" });
-            if (instructionsRef.current)
-              gsap.to(instructionsRef.current, { opacity: 1 });
-            if (dragRef.current) gsap.set(dragRef.current, { opacity: 1 });
-          },
-        }
-      );
-    }
+  // Drops a pull without firing or spending a shot
+  const cancelDrawing = useCallback((id: string) => {
+    const slingshot = state.current.slingshots.get(id);
+    if (!slingshot) return;
 
-    state.current.isDrawing = false;
-    state.current.lastDistance = 0;
+    state.current.slingshots.delete(id);
+    [slingshot.line, slingshot.trajectory, slingshot.circle, slingshot.image].forEach((el) =>
+      el.remove()
+    );
 
-    // Cleanup SVG
-    if (canvasRef.current) canvasRef.current.innerHTML = "";
-    state.current.currentLine = null;
-    state.current.startImage = null;
-    state.current.circle = null;
-  }, [createExplosion]);
+    const sprite = getCursor(slingshot.cursorIndex);
+    if (sprite) {
+      if (sprite.handle) gsap.set(sprite.handle, { opacity: 0 });
+      if (sprite.drag) gsap.set(sprite.drag, { opacity: 1 });
+      if (sprite.root) gsap.set(sprite.root, { rotation: 0, overwrite: "auto" });
+      if (sprite.instructions) gsap.to(sprite.instructions, { opacity: 1 });
+    }
+  }, []);
 
   // --- Input Handling ---
 
-  const handleHandUpdate = useCallback(
-    (data: HandInputData) => {
-      if (!isHandMode) return;
-
-      const { cursor, isPinching, isDetected } = data;
-
-      // Update cursor/hand position
-      if (xSetter.current) xSetter.current(cursor.x);
-      if (ySetter.current) ySetter.current(cursor.y);
-
-      // Show/Hide hand based on detection
-      if (handRef.current) {
-        gsap.to(handRef.current, { opacity: isDetected ? 1 : 0, duration: 0.2 });
-      }
-
-      // Cancel any pending release when we get a confident pinch again
-      if (isDetected && isPinching && releaseTimeoutRef.current) {
-        window.clearTimeout(releaseTimeoutRef.current);
-        releaseTimeoutRef.current = null;
-      }
-
-      // State Machine with jitter protection: start on pinch, update while held,
-      // and debounce the release to mimic the mouse drag behaviour.
-      if (isDetected && isPinching) {
-        if (!state.current.isDrawing) {
-          startDrawing(cursor.x, cursor.y);
+  const handleInput = useCallback(
+    ({ type, pointerId, cursorIndex, cursor, anchor, depthPull, visible }: InputEvent) => {
+      const sprite = getCursor(cursorIndex);
+      if (sprite) {
+        // Update cursor/hand position
+        sprite.setX?.(cursor.x);
+        sprite.setY?.(cursor.y);
+
+        // Show/Hide hand based on whether the source still sees the cursor
+        if (sprite.root) {
+          gsap.to(sprite.root, { opacity: visible ? 1 : 0, duration: 0.2 });
         }
-
-        if (state.current.isDrawing) {
-          updateDrawing(cursor.x, cursor.y);
-        }
-
-        return;
       }
 
-      // Release if pinch opens OR detection is lost while drawing, but debounce
-      // slightly to avoid flicker from minor tracking noise.
-      if (state.current.isDrawing && !releaseTimeoutRef.current) {
-        releaseTimeoutRef.current = window.setTimeout(() => {
-          endDrawing();
-          releaseTimeoutRef.current = null;
-        }, 80);
+      if (type === "press") {
+        const start = anchor ?? cursor;
+        startDrawing(pointerId, start.x, start.y, cursorIndex);
+      } else if (type === "move") {
+        updateDrawing(pointerId, cursor.x, cursor.y, anchor, depthPull);
+      } else if (type === "cancel") {
+        cancelDrawing(pointerId);
+      } else {
+        endDrawing(pointerId);
       }
     },
-    [isHandMode, startDrawing, updateDrawing, endDrawing]
+    [startDrawing, updateDrawing, endDrawing, cancelDrawing]
   );
+  // Read through a ref so new callbacks (e.g. once assets load) don't restart the source
+  const handleInputRef = useRef(handleInput);
+  handleInputRef.current = handleInput;
+
+  // --- Screen Reader Announcements ---
+  const previousAimRef = useRef<KeyboardAim | null>(null);
 
-  // --- Mouse Observers ---
   useEffect(() => {
-    if (isHandMode || !proxyRef.current) return;
-
-    const observer = Observer.create({
-      target: proxyRef.current,
-      type: "pointer,touch",
-      onMove: (e) => {
-        if (xSetter.current) xSetter.current(e.x);
-        if (ySetter.current) ySetter.current(e.y);
-        if (handRef.current) gsap.to(handRef.current, { opacity: 1, duration: 0.2 });
-      },
-      onPress: (e) => startDrawing(e.x, e.y),
-      onDrag: (e) => state.current.isDrawing && updateDrawing(e.x, e.y),
-      onDragEnd: () => endDrawing(),
-      onRelease: () => endDrawing(),
-    });
-    
-    const mouseLeave = () => {
-        if(handRef.current) gsap.to(handRef.current, { opacity: 0, duration: 0.2 });
+    const previous = previousAimRef.current;
+    previousAimRef.current = keyboardAim;
+    if (!keyboardAim) return;
+
+    const power = `power ${Math.round(keyboardAim.power * 100)} percent`;
+    const angle = `angle ${Math.round(keyboardAim.angle)} degrees`;
+
+    if (keyboardAim.phase === "pull" && previous?.phase !== "pull") {
+      setAnnouncement(`Pulling. ${power}, ${angle}. Space to fire.`);
+    } else if (keyboardAim.phase === "aim" && previous?.phase === "pull") {
+      setAnnouncement(`Fired with ${power}, ${angle}.`);
+    } else if (previous && keyboardAim.power !== previous.power) {
+      setAnnouncement(power);
+    } else if (previous && keyboardAim.angle !== previous.angle) {
+      setAnnouncement(angle);
     }
-    
-    containerRef.current?.addEventListener('mouseleave', mouseLeave);
+  }, [keyboardAim]);
+
+  useEffect(() => {
+    if (!game) return;
+    if (game.status === "finished") {
+      setAnnouncement(
+        `${game.cleared ? "Level cleared" : "Round over"}. Score ${game.score}, ${game.hits} hits from ${game.shots} shots.`
+      );
+    } else if (game.status === "running" && game.hits) {
+      setAnnouncement(`Hit. Score ${game.score}.`);
+    }
+  }, [game?.status, game?.hits]);
+
+  // --- Input Sources ---
+  useEffect(() => {
+    let source: InputSource;
+    let unbindGesture: (() => void) | null = null;
+    // Held gestures were timed on the previous source's clock
+    gestures.reset();
+
+    if (replay) {
+      // Start from the recorded state: same seed, an empty world, same round
+      state.current.rng = createRng(replay.seed);
+      projectileTickersRef.current.forEach((stop) => stop());
+      state.current.world.clear();
+      if (replay.settings.game) startGame(replay.settings.game.level);
+      else exitGame();
+
+      const player = createReplayInputSource(replay, {
+        gestures,
+        onEnd: () => setReplay(null),
+        clock: state.current.world.onStep,
+      });
+      if (player.hand) unbindGesture = gestures.bind("fist", player.hand.cancel);
+      source = player;
+    } else if (inputMode === "hand") {
+      const hand = twoHanded
+        ? createTwoHandInputSource({ gestures })
+        : createHandInputSource({ gestures });
+      unbindGesture = gestures.bind("fist", hand.cancel);
+      // Record frames before the source debounces them, so replays do too
+      setHandSource({
+        ...hand,
+        push: (data) => {
+          state.current.recorder?.recordHand(data);
+          hand.push(data);
+        },
+      });
+      source = hand;
+    } else if (inputMode === "gamepad") {
+      source = createGamepadInputSource({ onConnectionChange: setGamepadConnected });
+    } else if (inputMode === "keyboard") {
+      source = createKeyboardInputSource({ onAimChange: setKeyboardAim });
+    } else {
+      if (!proxyRef.current || !containerRef.current) return;
+      source = createPointerInputSource(proxyRef.current, containerRef.current);
+    }
+
+    const recordEvents = !replay && inputMode !== "hand";
+    const unsubscribe = source.subscribe((event) => {
+      if (recordEvents) state.current.recorder?.recordEvent(event);
+      handleInputRef.current(event);
+    });
 
     return () => {
-      observer.kill();
-      containerRef.current?.removeEventListener('mouseleave', mouseLeave);
+      unsubscribe();
+      unbindGesture?.();
+      source.destroy();
+      // Pulls held by the old source will never see their release
+      [...state.current.slingshots.keys()].forEach(cancelDrawing);
+      setHandSource(null);
+      setGamepadConnected(false);
+      setKeyboardAim(null);
     };
-  }, [isHandMode, startDrawing, updateDrawing, endDrawing]);
+  }, [inputMode, twoHanded, replay, cancelDrawing, gestures, startGame, exitGame]);
+
+  // Open palm wipes the screen; fist cancels a pull (bound per source above).
+  // The palm must be held, since every release briefly opens the hand.
+  useEffect(
+    () => gestures.bind("openPalm", clearParticles, OPEN_PALM_HOLD_MS),
+    [gestures, clearParticles]
+  );
 
   return (
     <div
       ref={containerRef}
+      onDragOver={handlePackDragOver}
+      onDrop={handlePackDrop}
       className={`relative isolate z-10 w-full h-screen flex flex-col items-center justify-center ${
         isHandMode ? "bg-black" : "bg-[#131313]"
       } text-white overflow-hidden ${
@@ -422,76 +1057,300 @@ export const SlingshotCanvas: React.FC = () => {
       {/* Mode + Instruction */}
       <div className="fixed top-4 left-4 z-50 flex flex-col gap-3 pointer-events-none">
         <div className="flex gap-2 pointer-events-auto">
+          {INPUT_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={(e) => {
+                // Keep Space from re-clicking this button in keyboard mode
+                e.currentTarget.blur();
+                setInputMode(mode);
+              }}
+              disabled={!!replay}
+              className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors border disabled:opacity-50 ${
+                inputMode === mode
+                  ? "bg-white text-black border-white/70 shadow-sm"
+                  : "bg-transparent text-white/70 border-white/30 hover:bg-white/10"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2 pointer-events-auto text-[11px] uppercase tracking-[0.16em]">
+          <button
+            onClick={() => setCollisionsEnabled((enabled) => !enabled)}
+            disabled={settingsLocked}
+            aria-pressed={collisionsEnabled}
+            className={`px-3 py-1 rounded-full font-semibold transition-colors border disabled:opacity-50 ${
+              collisionsEnabled
+                ? "bg-white text-black border-white/70"
+                : "bg-transparent text-white/70 border-white/30 hover:bg-white/10"
+            }`}
+          >
+            Bounce
+          </button>
+          {isHandMode && (
+            <button
+              onClick={() => setTwoHanded((enabled) => !enabled)}
+              disabled={!!replay}
+              aria-pressed={twoHanded}
+              className={`px-3 py-1 rounded-full font-semibold transition-colors border disabled:opacity-50 ${
+                twoHanded
+                  ? "bg-white text-black border-white/70"
+                  : "bg-transparent text-white/70 border-white/30 hover:bg-white/10"
+              }`}
+            >
+              Two hands
+            </button>
+          )}
+          {isHandMode && (
+            <button
+              onClick={() => setTrackpad((enabled) => !enabled)}
+              disabled={settingsLocked}
+              aria-pressed={trackpad}
+              className={`px-3 py-1 rounded-full font-semibold transition-colors border disabled:opacity-50 ${
+                trackpad
+                  ? "bg-white text-black border-white/70"
+                  : "bg-transparent text-white/70 border-white/30 hover:bg-white/10"
+              }`}
+            >
+              Trackpad
+            </button>
+          )}
+          {isHandMode && !twoHanded && (
+            <button
+              onClick={() =>
+                setDepthPullMode(
+                  (mode) =>
+                    DEPTH_PULL_MODES[(DEPTH_PULL_MODES.indexOf(mode) + 1) % DEPTH_PULL_MODES.length]
+                )
+              }
+              disabled={settingsLocked}
+              className="px-3 py-1 rounded-full font-semibold transition-colors border bg-transparent text-white/70 border-white/30 hover:bg-white/10 disabled:opacity-50"
+            >
+              Depth: {depthPullMode}
+            </button>
+          )}
+          <button
+            onClick={cyclePattern}
+            disabled={settingsLocked}
+            className="px-3 py-1 rounded-full font-semibold transition-colors border bg-transparent text-white/70 border-white/30 hover:bg-white/10 disabled:opacity-50"
+          >
+            Pattern: {patternChoice}
+          </button>
+          <button
+            onClick={cyclePack}
+            disabled={!assetsLoaded || !!game || isEditing || settingsLocked}
+            className="px-3 py-1 rounded-full font-semibold transition-colors border bg-transparent text-white/70 border-white/30 hover:bg-white/10 disabled:opacity-50"
+          >
+            Pack: {activePack.pack.name}
+          </button>
+          <button
+            onClick={() => packInputRef.current?.click()}
+            disabled={!!game || isEditing || settingsLocked}
+            title="Or drop a pack folder or zip anywhere"
+            className="px-3 py-1 rounded-full font-semibold transition-colors border bg-transparent text-white/70 border-white/30 hover:bg-white/10 disabled:opacity-50"
+          >
+            Load pack
+          </button>
+          <input
+            ref={packInputRef}
+            type="file"
+            multiple
+            accept=".zip,.json,image/*"
+            onChange={importPack}
+            className="hidden"
+          />
+          <button
+            onClick={isRecording ? stopRecording : startRecording}
+            disabled={!!replay || isEditing}
+            aria-pressed={isRecording}
+            className={`px-3 py-1 rounded-full font-semibold transition-colors border disabled:opacity-50 ${
+              isRecording
+                ? "bg-white text-black border-white/70"
+                : "bg-transparent text-white/70 border-white/30 hover:bg-white/10"
+            }`}
+          >
+            {isRecording ? "Stop recording" : "Record"}
+          </button>
           <button
-            onClick={() => setIsHandMode(false)}
-            className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors border ${
-              !isHandMode
-                ? "bg-white text-black border-white/70 shadow-sm"
+            onClick={replay ? () => setReplay(null) : () => sessionInputRef.current?.click()}
+            disabled={isRecording}
+            aria-pressed={!!replay}
+            className={`px-3 py-1 rounded-full font-semibold transition-colors border disabled:opacity-50 ${
+              replay
+                ? "bg-white text-black border-white/70"
                 : "bg-transparent text-white/70 border-white/30 hover:bg-white/10"
             }`}
           >
-            Mouse
+            {replay ? "Stop replay" : "Replay"}
           </button>
+          <input
+            ref={sessionInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={startReplay}
+            className="hidden"
+          />
           <button
-            onClick={() => setIsHandMode(true)}
-            className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors border ${
-              isHandMode
-                ? "bg-white text-black border-white/70 shadow-sm"
+            onClick={game ? exitGame : () => startGame()}
+            disabled={!assetsLoaded || settingsLocked}
+            aria-pressed={!!game}
+            className={`px-3 py-1 rounded-full font-semibold transition-colors border disabled:opacity-50 ${
+              game
+                ? "bg-white text-black border-white/70"
                 : "bg-transparent text-white/70 border-white/30 hover:bg-white/10"
             }`}
           >
-            Hand AI
+            {game ? "Exit game" : "Game"}
+          </button>
+          <button
+            onClick={openEditor}
+            disabled={!assetsLoaded || isEditing || settingsLocked}
+            className="px-3 py-1 rounded-full font-semibold transition-colors border bg-transparent text-white/70 border-white/30 hover:bg-white/10 disabled:opacity-50"
+          >
+            Editor
+          </button>
+          <button
+            onClick={clearParticles}
+            disabled={settingsLocked}
+            className="px-3 py-1 rounded-full font-semibold transition-colors border bg-transparent text-white/70 border-white/30 hover:bg-white/10 disabled:opacity-50"
+          >
+            Clear
           </button>
         </div>
         <div className="flex items-center gap-2 text-[11px] uppercase tracking-[0.2em] text-white/70">
           <span className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-3 py-1 backdrop-blur">
             <span className="h-1.5 w-1.5 rounded-full bg-white/80" />
-            {isHandMode ? "Pinch to drag" : "Click and drag"}
+            {isHandMode && twoHanded ? TWO_HANDED_INSTRUCTIONS : INSTRUCTIONS[inputMode]}
+          </span>
+          <span className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-2 py-1 text-[10px] tracking-[0.16em]">
+            quality {performanceTier}
           </span>
+          {keyboardAim?.phase === "pull" && (
+            <span className="inline-flex items-center gap-2 rounded-full border border-white/25 bg-black/60 px-3 py-1 tabular-nums">
+              power {Math.round(keyboardAim.power * 100)}% · angle {Math.round(keyboardAim.angle)}°
+            </span>
+          )}
+          {inputMode === "gamepad" && !gamepadConnected && (
+            <span className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-2 py-1 text-[10px] tracking-[0.16em]">
+              connect a controller and press any button
+            </span>
+          )}
           {!assetsLoaded && (
             <span className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-2 py-1 text-[10px] tracking-[0.16em]">
               loading assets
             </span>
           )}
+          {isRecording && (
+            <span className="inline-flex items-center gap-2 rounded-full border border-white/25 bg-black/60 px-2 py-1 text-[10px] tracking-[0.16em]">
+              <span className="h-1.5 w-1.5 rounded-full bg-white animate-pulse" />
+              recording
+            </span>
+          )}
+          {replay && (
+            <span className="inline-flex items-center gap-2 rounded-full border border-white/25 bg-black/60 px-2 py-1 text-[10px] tracking-[0.16em]">
+              replaying {replay.mode} session · seed {replay.seed}
+            </span>
+          )}
+          {fileError && (
+            <button
+              onClick={() => setFileError(null)}
+              className="pointer-events-auto inline-flex items-center gap-2 rounded-full border border-white/30 bg-black/60 px-3 py-1 text-[10px] normal-case tracking-normal"
+            >
+              {fileError} ×
+            </button>
+          )}
         </div>
       </div>
 
-      <HandController enabled={isHandMode} onUpdate={handleHandUpdate} />
+      <HandController
+        enabled={isHandMode && !replay}
+        source={handSource}
+        activeZone={trackpad ? TRACKPAD_ZONE : null}
+        budget={budget}
+      />
+
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      {isEditing && (
+        <LevelEditor
+          initialLevel={level}
+          onPlay={playLevel}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
+
+      {game && (
+        <GameOverlay
+          game={game}
+          getSpriteSrc={getSpriteSrc}
+          onPlayAgain={restartGame}
+          onExit={exitGame}
+        />
+      )}
 
       {/* Minimal Centerpiece */}
 
-      {/* The "Hand" Cursor */}
-      <div
-        ref={handRef}
-        className="fixed top-0 left-0 w-[30px] pointer-events-none z-40 opacity-0"
-      >
-        <div className="relative">
-            <img
-            ref={dragRef}
-            src="https://assets.codepen.io/16327/hand-drag.png"
-            alt="Hand Drag"
-            className="absolute top-[-22px] right-[1px] min-w-[141%] opacity-100"
-            />
-            <img
-            ref={rockRef}
-            src="https://assets.codepen.io/16327/hand-rock.png"
-            alt="Hand Rock"
-            className="absolute top-[-22px] right-[1px] min-w-[141%] opacity-0"
-            />
-            <img
-            ref={handleRef}
-            src="https://assets.codepen.io/16327/2D-circle.png"
-            alt="Handle"
-            className="absolute top-[-40px] left-0 right-0 w-full opacity-0"
-            />
-            <small
-            ref={instructionsRef}
-            className="absolute top-[20px] left-[-60%] w-[200%] text-center text-xs metallic-white"
-            >
-            drag me
-            </small>
+      {/* The "Hand" Cursors */}
+      {cursorsRef.current.map((sprite, index) => (
+        <div
+          key={index}
+          ref={(el) => {
+            sprite.root = el;
+          }}
+          className="fixed top-0 left-0 w-[30px] pointer-events-none z-40 opacity-0"
+        >
+          <div className="relative">
+              <img
+              ref={(el) => {
+                sprite.drag = el;
+              }}
+              src={cursorImages?.drag}
+              alt="Hand Drag"
+              className="absolute top-[-22px] right-[1px] min-w-[141%] opacity-100"
+              />
+              <img
+              ref={(el) => {
+                sprite.rock = el;
+              }}
+              src={cursorImages?.rock}
+              alt="Hand Rock"
+              className="absolute top-[-22px] right-[1px] min-w-[141%] opacity-0"
+              />
+              <img
+              ref={(el) => {
+                sprite.handle = el;
+              }}
+              src={cursorImages?.handle}
+              alt="Handle"
+              className="absolute top-[-40px] left-0 right-0 w-full opacity-0"
+              />
+              <small
+              ref={(el) => {
+                sprite.instructions = el;
+              }}
+              className="absolute top-[20px] left-[-60%] w-[200%] text-center text-xs metallic-white"
+              >
+              {index === 0 ? "drag me" : "player 2"}
+              </small>
+          </div>
         </div>
-      </div>
+      ))}
+
+      {/* Explosion Particles */}
+      <canvas
+        ref={particleCanvasRef}
+        className={`absolute top-0 left-0 w-full h-full pointer-events-none z-10 ${
+          particleRenderer === "canvas" ? "" : "hidden"
+        }`}
+      />
+      <div
+        ref={particleLayerRef}
+        className="absolute top-0 left-0 w-full h-full pointer-events-none z-10"
+      ></div>
 
       {/* SVG Canvas for Line Drawing */}
       <svg
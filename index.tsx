@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from '@/App';
+import { registerServiceWorker } from '@/services/serviceWorker';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -14,3 +15,5 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+registerServiceWorker();
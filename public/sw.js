@@ -0,0 +1,115 @@
+// Offline cache for the app shell and the asset manifest. Navigations go to
+// the network first so deploys show up; everything else is served from the
+// cache when present.
+const CACHE = "gesture-slingshot-v1";
+
+// The first visit loads before this worker controls the page, so its shell
+// never passes through the fetch handler. Fetch the start page and the
+// same-origin scripts and styles it links while installing instead.
+const precacheShell = async () => {
+  const scope = self.registration.scope;
+  const cache = await caches.open(CACHE);
+  const response = await fetch(scope, { cache: "no-cache" });
+  if (!response.ok) return;
+
+  const html = await response.clone().text();
+  await cache.put(scope, response);
+
+  const urls = [...html.matchAll(/<(?:script|link)\b[^>]*?\b(?:src|href)="([^"]+)"/g)]
+    .map(([, url]) => new URL(url, scope))
+    .filter((url) => url.origin === self.location.origin);
+  await Promise.all(
+    urls.map(async (url) => {
+      try {
+        const asset = await fetch(url);
+        if (asset.ok) await cache.put(url, asset);
+      } catch {
+        // The page's precache message retries whatever loaded
+      }
+    })
+  );
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    precacheShell()
+      .catch(() => {})
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Hosts without CORS headers still cache, as opaque responses images can use
+const fetchForCache = async (url) => {
+  try {
+    return await fetch(url);
+  } catch {
+    return fetch(url, { mode: "no-cors" });
+  }
+};
+
+const isCacheable = (response) => response.ok || response.type === "opaque";
+
+// The page posts the asset manifest URLs and its loaded files once the
+// worker is active
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "precache") return;
+
+  event.waitUntil(
+    caches.open(CACHE).then((cache) =>
+      Promise.all(
+        event.data.urls.map(async (url) => {
+          if (await cache.match(url)) return;
+          try {
+            const response = await fetchForCache(url);
+            if (isCacheable(response)) await cache.put(url, response);
+          } catch {
+            // Offline or gone upstream; the next precache tries again
+          }
+        })
+      )
+    )
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || request.headers.has("range")) return;
+
+  const isSameOrigin = new URL(request.url).origin === self.location.origin;
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then(async (response) => {
+          const cache = await caches.open(CACHE);
+          await cache.put(request, response.clone());
+          return response;
+        })
+        .catch(async () => (await caches.match(request)) ?? caches.match(self.registration.scope))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then(async (cached) => {
+      if (cached) return cached;
+
+      const response = await fetch(request);
+      // Cross-origin requests are only cached through the manifest
+      if (isSameOrigin && response.ok) {
+        const cache = await caches.open(CACHE);
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })
+  );
+});
@@ -0,0 +1,46 @@
+// Copies every file in the asset manifest into public/assets so the app can
+// run with VITE_ASSET_BASE_URL=/assets/ and no third-party hosts.
+// Usage: node scripts/fetch-assets.mjs [--force]
+import { copyFile, mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const outDir = path.join(root, "public", "assets");
+const force = process.argv.includes("--force");
+
+const { files } = JSON.parse(await readFile(path.join(root, "services", "assetManifest.json"), "utf8"));
+
+const exists = (file) =>
+  stat(file).then(
+    () => true,
+    () => false
+  );
+
+let failed = 0;
+
+for (const entry of files) {
+  const target = path.join(outDir, entry.path);
+  if (!force && (await exists(target))) continue;
+
+  await mkdir(path.dirname(target), { recursive: true });
+
+  try {
+    if (entry.package) {
+      await copyFile(path.join(root, "node_modules", entry.package), target);
+    } else {
+      const response = await fetch(entry.upstream);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      await writeFile(target, Buffer.from(await response.arrayBuffer()));
+    }
+    console.log(`✓ ${entry.path}`);
+  } catch (err) {
+    failed++;
+    console.error(`✗ ${entry.path}: ${err.message}`);
+  }
+}
+
+if (failed) {
+  console.error(`${failed} asset(s) missing from ${path.relative(root, outDir)}`);
+  process.exit(1);
+}
@@ -0,0 +1,385 @@
+import { getAssetUrl } from "@/services/assets";
+import { isNonEmptyString, parseJsonObject } from "@/services/validation";
+import { readZip } from "@/services/zip";
+import { AssetMap } from "@/utils/types";
+
+/**
+ * Asset packs theme the game: projectile and confetti sprites, the cursor
+ * hand images and the slingshot colors. A pack is a `pack.json` manifest
+ * next to its images, either built in or dropped in as a folder or zip.
+ */
+
+export const ASSET_PACK_VERSION = 1;
+export const ASSET_PACK_MANIFEST = "pack.json";
+
+export interface PackSprite {
+  key: string;
+  /** Image path relative to the manifest. */
+  src: string;
+  /** Whole number; a weight of 3 is picked three times as often as 1. */
+  weight: number;
+}
+
+export interface PackCursor {
+  /** Open hand shown while aiming. */
+  drag: string;
+  /** Closed hand shown after a shot. */
+  rock: string;
+  /** Ring drawn under the hand while pulling. */
+  handle: string;
+}
+
+export interface PackColors {
+  /** Dashed band from the anchor to the projectile. */
+  line: string;
+  /** Predicted flight path. */
+  trajectory: string;
+  /** Disc under the projectile at the anchor. */
+  anchor: string;
+}
+
+export interface AssetPack {
+  version: number;
+  name: string;
+  projectiles: PackSprite[];
+  confetti: PackSprite[];
+  /** Omitted images fall back to the built-in hands. */
+  cursor: Partial<PackCursor>;
+  colors: PackColors;
+}
+
+/** A pack plus where its images live. */
+export interface AssetPackSource {
+  pack: AssetPack;
+  /** URL for a sprite or cursor `src`. */
+  resolve: (src: string) => string;
+  /** Frees object URLs made for a dropped folder or zip. */
+  dispose?: () => void;
+}
+
+export interface SpriteSet {
+  images: AssetMap;
+  /** Keys repeated by weight, ready for `rng.pick`. */
+  keys: string[];
+}
+
+export interface LoadedAssetPack {
+  name: string;
+  projectiles: SpriteSet;
+  confetti: SpriteSet;
+  cursor: PackCursor;
+  colors: PackColors;
+}
+
+export const DEFAULT_PACK_COLORS: PackColors = {
+  line: "#fffce1",
+  trajectory: "#fffce1",
+  anchor: "#0e100f",
+};
+
+const DEFAULT_CURSOR: PackCursor = {
+  drag: "sprites/hand-drag.png",
+  rock: "sprites/hand-rock.png",
+  handle: "sprites/2D-circle.png",
+};
+
+const MAX_WEIGHT = 20;
+
+const sprites = (entries: [key: string, file: string, weight?: number][]): PackSprite[] =>
+  entries.map(([key, file, weight = 1]) => ({ key, src: `sprites/${file}`, weight }));
+
+/** Built-in packs; their `src` paths are asset manifest paths. */
+export const BUILT_IN_PACKS: AssetPack[] = [
+  {
+    version: ASSET_PACK_VERSION,
+    name: "Classic",
+    projectiles: sprites([
+      ["combo", "3D-combo.png"],
+      ["cone", "3D-cone.png"],
+      ["hoop", "3D-hoop.png"],
+      ["keyframe", "3D-keyframe.png"],
+      ["semi", "3D-semi.png"],
+      ["spiral", "3D-spiral.png"],
+      ["squish", "3D-squish.png"],
+      ["triangle", "3D-triangle.png"],
+      ["tunnel", "3D-tunnel.png"],
+      ["wat", "3D-poly.png"],
+    ]),
+    confetti: sprites([
+      ["blue-circle", "2D-circles.png"],
+      ["green-keyframe", "2D-keyframe.png"],
+      ["orange-lightning", "2D-lightning.png"],
+      ["orange-star", "2D-star.png"],
+      ["purple-flower", "2D-flower.png"],
+      ["cone", "3D-cone.png"],
+      ["keyframe", "3D-keyframe.png"],
+      ["spiral", "3D-spiral.png"],
+      ["tunnel", "3D-tunnel.png"],
+      ["hoop", "3D-hoop.png"],
+      ["semi", "3D-semi.png"],
+    ]),
+    cursor: DEFAULT_CURSOR,
+    colors: DEFAULT_PACK_COLORS,
+  },
+  {
+    version: ASSET_PACK_VERSION,
+    name: "Flat",
+    projectiles: sprites([
+      ["circles", "2D-circles.png", 2],
+      ["keyframe", "2D-keyframe.png"],
+      ["lightning", "2D-lightning.png"],
+      ["star", "2D-star.png", 2],
+      ["flower", "2D-flower.png"],
+    ]),
+    confetti: sprites([
+      ["circles", "2D-circles.png"],
+      ["star", "2D-star.png", 3],
+      ["flower", "2D-flower.png"],
+    ]),
+    cursor: DEFAULT_CURSOR,
+    colors: { line: "#ffffff", trajectory: "#ffffff", anchor: "#000000" },
+  },
+];
+
+export const BUILT_IN_PACK_SOURCES: AssetPackSource[] = BUILT_IN_PACKS.map((pack) => ({
+  pack,
+  resolve: getAssetUrl,
+}));
+
+// --- Parsing ---
+
+const isColor = (value: unknown): value is string =>
+  isNonEmptyString(value) && (typeof CSS === "undefined" || CSS.supports("color", value));
+
+const parseSprites = (value: any, label: string): PackSprite[] => {
+  if (!Array.isArray(value) || !value.length) {
+    throw new Error(`Pack needs at least one ${label} sprite.`);
+  }
+
+  const keys = new Set<string>();
+  return value.map((sprite: any, i: number) => {
+    const where = `${label[0].toUpperCase()}${label.slice(1)} sprite ${i + 1}`;
+    if (!isNonEmptyString(sprite?.key)) {
+      throw new Error(`${where} needs a key.`);
+    }
+    if (keys.has(sprite.key)) {
+      throw new Error(`${where} reuses the key "${sprite.key}".`);
+    }
+    if (!isNonEmptyString(sprite.src)) {
+      throw new Error(`${where} needs a src image path.`);
+    }
+    const weight = sprite.weight ?? 1;
+    if (!Number.isInteger(weight) || weight < 1 || weight > MAX_WEIGHT) {
+      throw new Error(`${where} weight must be a whole number from 1 to ${MAX_WEIGHT}.`);
+    }
+    keys.add(sprite.key);
+    return { key: sprite.key, src: sprite.src, weight };
+  });
+};
+
+/**
+ * Reads a `pack.json` manifest. Sprite lists are required; cursor images and
+ * colors are optional per part and fall back to the defaults. Image paths
+ * aren't checked against the pack's files here.
+ */
+export const parseAssetPack = (json: string): AssetPack => {
+  const data = parseJsonObject(json, ASSET_PACK_MANIFEST);
+
+  if (data.version !== ASSET_PACK_VERSION) {
+    throw new Error(`Unsupported pack version ${data.version}; expected ${ASSET_PACK_VERSION}.`);
+  }
+
+  const cursor: Partial<PackCursor> = {};
+  (Object.keys(DEFAULT_CURSOR) as (keyof PackCursor)[]).forEach((part) => {
+    const src = data.cursor?.[part];
+    if (src === undefined) return;
+    if (!isNonEmptyString(src)) {
+      throw new Error(`Cursor ${part} must be an image path.`);
+    }
+    cursor[part] = src;
+  });
+
+  const colors = { ...DEFAULT_PACK_COLORS };
+  (Object.keys(DEFAULT_PACK_COLORS) as (keyof PackColors)[]).forEach((part) => {
+    const color = data.colors?.[part];
+    if (color === undefined) return;
+    if (!isColor(color)) throw new Error(`Colors ${part} must be a CSS color.`);
+    colors[part] = color;
+  });
+
+  return {
+    version: ASSET_PACK_VERSION,
+    name: isNonEmptyString(data.name) ? data.name : "Untitled pack",
+    projectiles: parseSprites(data.projectiles, "projectile"),
+    confetti: parseSprites(data.confetti, "confetti"),
+    cursor,
+    colors,
+  };
+};
+
+/** Every image path a pack references. */
+export const getPackFiles = (pack: AssetPack) => [
+  ...new Set([
+    ...pack.projectiles.map(({ src }) => src),
+    ...pack.confetti.map(({ src }) => src),
+    ...Object.values(pack.cursor),
+  ]),
+];
+
+// --- User packs ---
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+};
+
+const normalizePath = (path: string) =>
+  path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((part) => part && part !== ".")
+    .join("/");
+
+/**
+ * Builds a pack from dropped files, keyed by path. A single zip is unpacked
+ * first. The manifest may sit in a subfolder; image paths are relative to
+ * it. Throws naming every referenced file that's missing.
+ */
+export const createPackSource = async (files: Map<string, Blob>): Promise<AssetPackSource> => {
+  const zips = [...files.keys()].filter((path) => path.toLowerCase().endsWith(".zip"));
+  if (zips.length === 1 && files.size === 1) {
+    return createPackSource(await readZip(files.get(zips[0])!));
+  }
+
+  const normalized = new Map([...files].map(([path, blob]) => [normalizePath(path), blob]));
+  const manifestPath = [...normalized.keys()]
+    .filter((path) => path === ASSET_PACK_MANIFEST || path.endsWith(`/${ASSET_PACK_MANIFEST}`))
+    .sort((a, b) => a.length - b.length)[0];
+
+  if (!manifestPath) {
+    throw new Error(`No ${ASSET_PACK_MANIFEST} found. Drop a pack folder or zip.`);
+  }
+
+  const root = manifestPath.slice(0, -ASSET_PACK_MANIFEST.length);
+  const pack = parseAssetPack(await normalized.get(manifestPath)!.text());
+  const referenced = getPackFiles(pack);
+  const missing = referenced.filter((src) => !normalized.has(root + normalizePath(src)));
+
+  if (missing.length) {
+    throw new Error(`Pack "${pack.name}" is missing ${missing.join(", ")}.`);
+  }
+
+  const urls = new Map(
+    referenced.map((src) => {
+      const blob = normalized.get(root + normalizePath(src))!;
+      const type = IMAGE_TYPES[src.split(".").pop()!.toLowerCase()] ?? blob.type;
+      return [src, URL.createObjectURL(new Blob([blob], { type }))];
+    })
+  );
+
+  return {
+    pack,
+    resolve: (src) => urls.get(src) ?? src,
+    dispose: () => urls.forEach((url) => URL.revokeObjectURL(url)),
+  };
+};
+
+/** Files from a folder picker or multi-select, keyed by relative path. */
+export const collectInputFiles = (list: FileList) =>
+  new Map([...list].map((file) => [file.webkitRelativePath || file.name, file as Blob]));
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const collectEntry = async (entry: FileSystemEntry, files: Map<string, Blob>) => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    files.set(entry.fullPath, file);
+    return;
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // Directory readers return entries in batches until an empty one
+  for (let batch = await readEntries(reader); batch.length; batch = await readEntries(reader)) {
+    await Promise.all(batch.map((child) => collectEntry(child, files)));
+  }
+};
+
+/** Files from a drag and drop, walking into dropped folders. */
+export const collectDroppedFiles = async (data: DataTransfer) => {
+  const files = new Map<string, Blob>();
+  const entries = [...data.items]
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (!entries.length) return collectInputFiles(data.files);
+
+  await Promise.all(entries.map((entry) => collectEntry(entry, files)));
+  return files;
+};
+
+// --- Loading ---
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement | null>((resolve) => {
+    const img = new Image();
+    img.src = src;
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+  });
+
+/**
+ * Loads a pack's sprites. Images that fail are left out; with `strict` they
+ * fail the whole pack instead, naming each one.
+ */
+export const loadAssetPack = async (
+  { pack, resolve }: AssetPackSource,
+  strict = false
+): Promise<LoadedAssetPack> => {
+  const failed = new Set<string>();
+  const images = new Map<string, HTMLImageElement>();
+
+  await Promise.all(
+    [...pack.projectiles, ...pack.confetti].map(async ({ src }) => {
+      if (images.has(src) || failed.has(src)) return;
+      const img = await loadImage(resolve(src));
+      if (img) images.set(src, img);
+      else failed.add(src);
+    })
+  );
+
+  if (strict && failed.size) {
+    throw new Error(`Pack "${pack.name}" has images that won't load: ${[...failed].join(", ")}.`);
+  }
+
+  // Keys follow manifest order so seeded picks are stable across loads
+  const toSpriteSet = (entries: PackSprite[]): SpriteSet => {
+    const set: SpriteSet = { images: {}, keys: [] };
+    entries.forEach(({ key, src, weight }) => {
+      const img = images.get(src);
+      if (!img) return;
+      set.images[key] = img;
+      for (let i = 0; i < weight; i++) set.keys.push(key);
+    });
+    return set;
+  };
+
+  return {
+    name: pack.name,
+    projectiles: toSpriteSet(pack.projectiles),
+    confetti: toSpriteSet(pack.confetti),
+    cursor: {
+      drag: pack.cursor.drag ? resolve(pack.cursor.drag) : getAssetUrl(DEFAULT_CURSOR.drag),
+      rock: pack.cursor.rock ? resolve(pack.cursor.rock) : getAssetUrl(DEFAULT_CURSOR.rock),
+      handle: pack.cursor.handle ? resolve(pack.cursor.handle) : getAssetUrl(DEFAULT_CURSOR.handle),
+    },
+    colors: pack.colors,
+  };
+};
@@ -0,0 +1,40 @@
+import manifest from "@/services/assetManifest.json";
+
+export interface AssetEntry {
+  /** Location under the asset base URL. */
+  path: string;
+  /** Original third-party URL, used when no base URL is configured. */
+  upstream: string;
+  /** File inside node_modules to copy instead of downloading. */
+  package?: string;
+}
+
+/** Every file the app loads at runtime, so it can be self-hosted and cached. */
+export const ASSET_MANIFEST: AssetEntry[] = manifest.files;
+
+export const ASSET_BASE_URL = import.meta.env.VITE_ASSET_BASE_URL ?? "";
+
+export const HAND_LANDMARKER_MODEL = "models/hand_landmarker.task";
+const VISION_WASM_LOADER = "wasm/vision_wasm_internal.js";
+
+const upstreamByPath = new Map(ASSET_MANIFEST.map((entry) => [entry.path, entry.upstream]));
+
+/**
+ * Absolute URL of a manifest asset: under the base URL when one is set,
+ * otherwise its upstream host. Works in workers as well as the page.
+ */
+export const getAssetUrl = (path: string, base = ASSET_BASE_URL) => {
+  if (base) {
+    const root = new URL(base.endsWith("/") ? base : `${base}/`, globalThis.location.href);
+    return new URL(path, root).href;
+  }
+
+  const upstream = upstreamByPath.get(path);
+  if (!upstream) throw new Error(`Unknown asset: ${path}`);
+  return upstream;
+};
+
+export const getAssetUrls = () => ASSET_MANIFEST.map(({ path }) => getAssetUrl(path));
+
+/** Folder holding MediaPipe's wasm files, as `FilesetResolver` expects. */
+export const getWasmBaseUrl = () => getAssetUrl(VISION_WASM_LOADER).replace(/\/[^/]*$/, "");
@@ -0,0 +1,71 @@
+import { DEFAULT_PINCH_THRESHOLDS, PinchThresholds } from "@/services/handTracking";
+
+const STORAGE_KEY = "gesture-slingshot:pinch-thresholds";
+
+// Thresholds sit this far from the pinched ratio towards the open one
+const START_FRACTION = 0.3;
+const RELEASE_FRACTION = 0.45;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Derives pinch thresholds from pinch ratios sampled with the hand open and
+ * pinched. Throws if the two poses can't be told apart.
+ */
+export const computePinchThresholds = (
+  openRatios: number[],
+  pinchedRatios: number[]
+): PinchThresholds => {
+  if (!openRatios.length || !pinchedRatios.length) {
+    throw new Error("No hand was seen during calibration.");
+  }
+
+  const open = median(openRatios);
+  const pinched = median(pinchedRatios);
+  if (open < pinched * 1.5) {
+    throw new Error("Open and pinched hands looked too similar. Try again with a clearer pinch.");
+  }
+
+  return {
+    start: pinched + (open - pinched) * START_FRACTION,
+    release: pinched + (open - pinched) * RELEASE_FRACTION,
+  };
+};
+
+/** This browser's saved thresholds, or the defaults. */
+export const loadPinchThresholds = (): PinchThresholds => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (
+      typeof saved?.start === "number" &&
+      typeof saved?.release === "number" &&
+      saved.start > 0 &&
+      saved.release >= saved.start
+    ) {
+      return { start: saved.start, release: saved.release };
+    }
+  } catch {
+    // Unavailable storage or a corrupt entry: fall back to defaults
+  }
+  return DEFAULT_PINCH_THRESHOLDS;
+};
+
+export const savePinchThresholds = (thresholds: PinchThresholds) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(thresholds));
+  } catch {
+    // Private mode or full storage; thresholds still apply this session
+  }
+};
+
+export const clearPinchThresholds = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing saved to clear
+  }
+};
@@ -0,0 +1,281 @@
+import { isPointInRect, Level, rectToPixels } from "@/services/levels";
+import { Rng } from "@/services/physics";
+import { Point, Rect } from "@/utils/types";
+
+/**
+ * Timed target-shooting mode. Like the physics world this is headless: the
+ * canvas feeds it elapsed time and hit tests, and renders its snapshots.
+ */
+
+export type GameStatus = "idle" | "running" | "finished";
+
+export type HitSource = "projectile" | "particle";
+
+export interface GameTarget extends Point {
+  id: number;
+  /** Key into the projectile sprite map. */
+  key: string;
+  radius: number;
+}
+
+export interface GameSnapshot {
+  status: GameStatus;
+  score: number;
+  combo: number;
+  bestCombo: number;
+  hits: number;
+  shots: number;
+  /** Shots whose projectile or burst hit at least one target. */
+  shotsOnTarget: number;
+  /** Seconds left on the clock. */
+  timeLeft: number;
+  targets: readonly GameTarget[];
+  /** Shots remaining in a level, or null when unlimited. */
+  shotsLeft: number | null;
+  /** Set when playing a level. */
+  level: { name: string; par: number } | null;
+  /** Every level target was hit. */
+  cleared: boolean;
+  /** Level geometry in pixels. */
+  obstacles: readonly Rect[];
+  anchorZone: Rect | null;
+}
+
+export interface GameConfig {
+  /** Round length in seconds. */
+  duration: number;
+  /** Targets kept on screen at once. */
+  targetCount: number;
+  targetRadius: number;
+  /** Seconds after a hit in which the next hit extends the combo. */
+  comboWindow: number;
+  particlePoints: number;
+  projectilePoints: number;
+  /** Keeps targets this far (px) from the viewport edges. */
+  margin: number;
+  /** Seconds to wait after the last allowed shot before ending a level. */
+  lastShotGrace: number;
+}
+
+export const DEFAULT_GAME: GameConfig = {
+  duration: 60,
+  targetCount: 3,
+  targetRadius: 40,
+  comboWindow: 1.5,
+  particlePoints: 100,
+  projectilePoints: 250,
+  margin: 80,
+  lastShotGrace: 3,
+};
+
+export interface GameSession {
+  readonly config: GameConfig;
+  getSnapshot: () => GameSnapshot;
+  /** Listeners fire on score, target and whole-second clock changes. */
+  subscribe: (listener: (snapshot: GameSnapshot) => void) => () => void;
+  start: (width: number, height: number) => void;
+  /** Advances the clock by `dt` seconds. */
+  update: (dt: number) => void;
+  /** Whether a new shot may be anchored at the given point. */
+  canShootFrom: (point: Point) => boolean;
+  /** Counts a shot and returns its id for `testHit`, or null when not running. */
+  registerShot: () => number | null;
+  /**
+   * Checks a circle against the live targets. A hit target is scored and
+   * replaced by a fresh one; `shot` credits the hit to that shot's accuracy.
+   * Returns whether anything was hit.
+   */
+  testHit: (
+    x: number,
+    y: number,
+    radius: number,
+    source: HitSource,
+    shot?: number | null
+  ) => boolean;
+  /** Whether a circle overlaps a live target, without scoring it. */
+  overlapsTarget: (x: number, y: number, radius: number) => boolean;
+}
+
+const createIdleSnapshot = (config: GameConfig): GameSnapshot => ({
+  status: "idle",
+  score: 0,
+  combo: 0,
+  bestCombo: 0,
+  hits: 0,
+  shots: 0,
+  shotsOnTarget: 0,
+  timeLeft: config.duration,
+  targets: [],
+  shotsLeft: null,
+  level: null,
+  cleared: false,
+  obstacles: [],
+  anchorZone: null,
+});
+
+/**
+ * Without a level, targets respawn endlessly until the clock runs out. With
+ * one, its targets are fixed and the round ends once they are all hit, the
+ * shots run out or the clock does.
+ */
+export const createGameSession = (
+  rng: Rng,
+  keys: readonly string[],
+  overrides: Partial<GameConfig> = {},
+  level: Level | null = null
+): GameSession => {
+  const config: GameConfig = {
+    ...DEFAULT_GAME,
+    ...(level ? { duration: level.duration } : {}),
+    ...overrides,
+  };
+  const listeners = new Set<(snapshot: GameSnapshot) => void>();
+  let snapshot = createIdleSnapshot(config);
+  let bounds = { width: 0, height: 0 };
+  let clock = 0;
+  let lastHitAt = -Infinity;
+  let outOfShotsAt: number | null = null;
+  let nextId = 1;
+  let nextShot = 1;
+  const shotsOnTarget = new Set<number>();
+
+  const emit = (changes: Partial<GameSnapshot>) => {
+    snapshot = { ...snapshot, ...changes };
+    listeners.forEach((listener) => listener(snapshot));
+  };
+
+  const spawnTarget = (existing: readonly GameTarget[]): GameTarget => {
+    const { margin, targetRadius } = config;
+    const maxX = Math.max(margin, bounds.width - margin);
+    const maxY = Math.max(margin, bounds.height - margin);
+    let candidate: Point = { x: 0, y: 0 };
+
+    // A few attempts at a spot that doesn't overlap another target
+    for (let attempt = 0; attempt < 10; attempt++) {
+      candidate = { x: rng.range(margin, maxX), y: rng.range(margin, maxY) };
+      const overlaps = existing.some(
+        (t) => Math.hypot(t.x - candidate.x, t.y - candidate.y) < t.radius + targetRadius
+      );
+      if (!overlaps) break;
+    }
+
+    return {
+      id: nextId++,
+      key: keys.length ? rng.pick(keys) : "",
+      radius: targetRadius,
+      ...candidate,
+    };
+  };
+
+  const start = (width: number, height: number) => {
+    bounds = { width, height };
+    clock = 0;
+    lastHitAt = -Infinity;
+    outOfShotsAt = null;
+    shotsOnTarget.clear();
+
+    if (level) {
+      const scale = Math.min(width, height);
+      emit({
+        ...createIdleSnapshot(config),
+        status: "running",
+        targets: level.targets.map((t) => ({
+          id: nextId++,
+          key: t.key ?? (keys.length ? rng.pick(keys) : ""),
+          x: t.x * width,
+          y: t.y * height,
+          radius: t.radius * scale,
+        })),
+        shotsLeft: level.shots,
+        level: { name: level.name, par: level.par },
+        obstacles: level.obstacles.map((o) => rectToPixels(o, width, height)),
+        anchorZone: level.anchorZone ? rectToPixels(level.anchorZone, width, height) : null,
+      });
+      return;
+    }
+
+    const targets: GameTarget[] = [];
+    for (let i = 0; i < config.targetCount; i++) targets.push(spawnTarget(targets));
+
+    emit({ ...createIdleSnapshot(config), status: "running", targets });
+  };
+
+  const update = (dt: number) => {
+    if (snapshot.status !== "running") return;
+
+    clock += dt;
+    const timeLeft = Math.max(0, config.duration - clock);
+    const comboExpired = snapshot.combo > 0 && clock - lastHitAt > config.comboWindow;
+
+    const outOfShots =
+      outOfShotsAt !== null && clock - outOfShotsAt > config.lastShotGrace;
+
+    if (timeLeft === 0 || outOfShots) {
+      emit({ status: "finished", timeLeft, combo: 0, targets: [] });
+    } else if (Math.ceil(timeLeft) !== Math.ceil(snapshot.timeLeft) || comboExpired) {
+      emit({ timeLeft, combo: comboExpired ? 0 : snapshot.combo });
+    }
+  };
+
+  const findTarget = (x: number, y: number, radius: number) =>
+    snapshot.status === "running"
+      ? snapshot.targets.findIndex((t) => Math.hypot(t.x - x, t.y - y) < t.radius + radius)
+      : -1;
+
+  const testHit = (
+    x: number,
+    y: number,
+    radius: number,
+    source: HitSource,
+    shot: number | null = null
+  ) => {
+    const index = findTarget(x, y, radius);
+    if (index === -1) return false;
+
+    const combo = clock - lastHitAt <= config.comboWindow ? snapshot.combo + 1 : 1;
+    const points = source === "projectile" ? config.projectilePoints : config.particlePoints;
+    const remaining = snapshot.targets.filter((_, i) => i !== index);
+    lastHitAt = clock;
+    if (shot !== null) shotsOnTarget.add(shot);
+
+    const cleared = !!level && !remaining.length;
+
+    emit({
+      score: snapshot.score + points * combo,
+      combo,
+      bestCombo: Math.max(snapshot.bestCombo, combo),
+      hits: snapshot.hits + 1,
+      shotsOnTarget: shotsOnTarget.size,
+      targets: level ? remaining : [...remaining, spawnTarget(remaining)],
+      ...(cleared ? { cleared, status: "finished" as const, combo: 0 } : {}),
+    });
+    return true;
+  };
+
+  return {
+    config,
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    start,
+    update,
+    canShootFrom: (point) =>
+      snapshot.status !== "running" ||
+      (snapshot.shotsLeft !== 0 &&
+        (!snapshot.anchorZone || isPointInRect(point, snapshot.anchorZone))),
+    registerShot: () => {
+      if (snapshot.status !== "running") return null;
+
+      const shotsLeft = snapshot.shotsLeft === null ? null : Math.max(0, snapshot.shotsLeft - 1);
+      if (shotsLeft === 0) outOfShotsAt = clock;
+      emit({ shots: snapshot.shots + 1, shotsLeft });
+      return nextShot++;
+    },
+    testHit,
+    overlapsTarget: (x, y, radius) => findTarget(x, y, radius) !== -1,
+  };
+};
@@ -0,0 +1,126 @@
+import { createInputEmitter } from "@/services/input";
+import { MAX_PULL_DISTANCE } from "@/services/projectile";
+import { InputSource, Point } from "@/utils/types";
+
+export interface GamepadInputOptions {
+  /** Cursor speed at full left-stick deflection, in px/s. */
+  cursorSpeed: number;
+  /** Stick values below this are treated as zero. */
+  deadzone: number;
+  /** Trigger value that starts a pull. */
+  pressThreshold: number;
+  /** Trigger value below which a held pull fires (hysteresis). */
+  releaseThreshold: number;
+  /** Called when a controller is connected or disconnected. */
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+export const DEFAULT_GAMEPAD_OPTIONS: GamepadInputOptions = {
+  cursorSpeed: 900,
+  deadzone: 0.15,
+  pressThreshold: 0.5,
+  releaseThreshold: 0.3,
+};
+
+// Standard mapping: axes 0/1 left stick, 2/3 right stick, buttons 6/7 triggers
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+
+const applyDeadzone = (value: number, deadzone: number) =>
+  Math.abs(value) < deadzone
+    ? 0
+    : Math.sign(value) * ((Math.abs(value) - deadzone) / (1 - deadzone));
+
+const getActiveGamepad = () =>
+  navigator.getGamepads?.().find((pad): pad is Gamepad => !!pad && pad.connected) ?? null;
+
+/**
+ * Polls the Gamepad API every frame. The left stick drives the cursor;
+ * holding either trigger anchors a pull at the cursor, the right stick sets
+ * the pull vector, and letting go of the trigger fires.
+ */
+export const createGamepadInputSource = (
+  overrides: Partial<GamepadInputOptions> = {}
+): InputSource => {
+  const options: GamepadInputOptions = { ...DEFAULT_GAMEPAD_OPTIONS, ...overrides };
+  const emitter = createInputEmitter("gamepad");
+  let frame: number | null = null;
+  let lastTime: number | null = null;
+  let connected = false;
+  let isPressed = false;
+  let anchor: Point = { x: 0, y: 0 };
+  let cursor: Point = { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+  let lastEmitted: Point | null = null;
+
+  const setConnected = (value: boolean) => {
+    if (value === connected) return;
+    connected = value;
+    options.onConnectionChange?.(value);
+    emitter.emit({ type: "move", cursor, visible: value });
+  };
+
+  const poll = (time: number) => {
+    frame = requestAnimationFrame(poll);
+    const dt = lastTime === null ? 0 : Math.min(time - lastTime, 50) / 1000;
+    lastTime = time;
+
+    const pad = getActiveGamepad();
+    setConnected(!!pad);
+
+    if (!pad) {
+      // A controller lost mid-pull drops the pull instead of firing it
+      if (isPressed) {
+        isPressed = false;
+        emitter.emit({ type: "cancel", cursor, visible: false });
+        cursor = anchor;
+      }
+      return;
+    }
+
+    const axis = (index: number) => applyDeadzone(pad.axes[index] ?? 0, options.deadzone);
+    const trigger = Math.max(
+      pad.buttons[LEFT_TRIGGER]?.value ?? 0,
+      pad.buttons[RIGHT_TRIGGER]?.value ?? 0
+    );
+
+    if (!isPressed && trigger >= options.pressThreshold) {
+      isPressed = true;
+      anchor = cursor;
+      emitter.emit({ type: "press", cursor, visible: true });
+    } else if (isPressed && trigger < options.releaseThreshold) {
+      isPressed = false;
+      emitter.emit({ type: "release", cursor, visible: true });
+      // Snap back to the anchor, like the band returning after a shot
+      cursor = anchor;
+    }
+
+    if (isPressed) {
+      cursor = {
+        x: anchor.x + axis(2) * MAX_PULL_DISTANCE,
+        y: anchor.y + axis(3) * MAX_PULL_DISTANCE,
+      };
+    } else {
+      cursor = {
+        x: Math.min(window.innerWidth, Math.max(0, cursor.x + axis(0) * options.cursorSpeed * dt)),
+        y: Math.min(window.innerHeight, Math.max(0, cursor.y + axis(1) * options.cursorSpeed * dt)),
+      };
+    }
+
+    // Only report real movement so an idle controller stays quiet
+    if (!lastEmitted || lastEmitted.x !== cursor.x || lastEmitted.y !== cursor.y) {
+      lastEmitted = cursor;
+      emitter.emit({ type: "move", cursor, visible: true });
+    }
+  };
+
+  frame = requestAnimationFrame(poll);
+
+  return {
+    subscribe: emitter.subscribe,
+    destroy: () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      emitter.clear();
+    },
+  };
+};
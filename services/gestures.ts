@@ -0,0 +1,170 @@
+import { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import {
+  DEFAULT_PINCH_THRESHOLDS,
+  getDistance,
+  isPinching,
+  PinchThresholds,
+} from "@/services/handTracking";
+import { Gesture, Handedness } from "@/utils/types";
+
+/**
+ * Classifies one pose from the 21 hand landmarks. `wasActive` lets each
+ * recognizer apply its own hysteresis: harder to enter than to stay in.
+ */
+export interface GestureRecognizer {
+  gesture: Exclude<Gesture, "none">;
+  detect: (landmarks: NormalizedLandmark[], wasActive: boolean) => boolean;
+}
+
+const WRIST = 0;
+// [tip, pip] per finger
+const INDEX = [8, 6];
+const MIDDLE = [12, 10];
+const RING = [16, 14];
+const PINKY = [20, 18];
+
+/**
+ * How far a finger reaches from the wrist compared to its middle joint.
+ * Around 1 or less when curled, ~1.3+ when straight.
+ */
+const getExtension = (landmarks: NormalizedLandmark[], [tip, pip]: number[]) =>
+  getDistance(landmarks[WRIST], landmarks[tip]) /
+  Math.max(getDistance(landmarks[WRIST], landmarks[pip]), 0.0001);
+
+const threshold = (value: number, wasActive: boolean, enter: number, exit: number) =>
+  enter > exit ? value > (wasActive ? exit : enter) : value < (wasActive ? exit : enter);
+
+const fist: GestureRecognizer = {
+  gesture: "fist",
+  detect: (landmarks, wasActive) => {
+    const mostExtended = Math.max(
+      ...[INDEX, MIDDLE, RING, PINKY].map((finger) => getExtension(landmarks, finger))
+    );
+    return threshold(mostExtended, wasActive, 0.9, 1);
+  },
+};
+
+const point: GestureRecognizer = {
+  gesture: "point",
+  detect: (landmarks, wasActive) => {
+    const others = Math.max(
+      ...[MIDDLE, RING, PINKY].map((finger) => getExtension(landmarks, finger))
+    );
+    return threshold(getExtension(landmarks, INDEX) - others, wasActive, 0.35, 0.25);
+  },
+};
+
+const peace: GestureRecognizer = {
+  gesture: "peace",
+  detect: (landmarks, wasActive) => {
+    const raised = Math.min(getExtension(landmarks, INDEX), getExtension(landmarks, MIDDLE));
+    const folded = Math.max(getExtension(landmarks, RING), getExtension(landmarks, PINKY));
+    return threshold(raised - folded, wasActive, 0.35, 0.25);
+  },
+};
+
+const openPalm: GestureRecognizer = {
+  gesture: "openPalm",
+  detect: (landmarks, wasActive) => {
+    const leastExtended = Math.min(
+      ...[INDEX, MIDDLE, RING, PINKY].map((finger) => getExtension(landmarks, finger))
+    );
+    return threshold(leastExtended, wasActive, 1.25, 1.15);
+  },
+};
+
+const createPinchRecognizer = (thresholds: PinchThresholds): GestureRecognizer => ({
+  gesture: "pinch",
+  detect: (landmarks, wasActive) => isPinching(landmarks, wasActive, thresholds),
+});
+
+/**
+ * The built-in recognizers, checked in order; the first active one wins.
+ * Pass calibrated thresholds to tune the pinch to one player's hand.
+ */
+export const createRecognizers = (
+  pinch: PinchThresholds = DEFAULT_PINCH_THRESHOLDS
+): GestureRecognizer[] => [fist, createPinchRecognizer(pinch), point, peace, openPalm];
+
+export const DEFAULT_RECOGNIZERS = createRecognizers();
+
+/**
+ * Per-hand gesture state. Every recognizer keeps its own active flag so
+ * hysteresis holds even while a higher-priority gesture is showing.
+ */
+export const createGestureClassifier = (
+  recognizers: GestureRecognizer[] = DEFAULT_RECOGNIZERS
+) => {
+  const active = new Set<Gesture>();
+
+  return {
+    classify: (landmarks: NormalizedLandmark[]): Gesture => {
+      if (!landmarks?.length) {
+        active.clear();
+        return "none";
+      }
+
+      recognizers.forEach(({ gesture, detect }) => {
+        if (detect(landmarks, active.has(gesture))) active.add(gesture);
+        else active.delete(gesture);
+      });
+
+      return recognizers.find(({ gesture }) => active.has(gesture))?.gesture ?? "none";
+    },
+    reset: () => active.clear(),
+  };
+};
+
+export type GestureClassifier = ReturnType<typeof createGestureClassifier>;
+
+export type GestureAction = (hand: Handedness) => void;
+
+interface GestureBinding {
+  action: GestureAction;
+  holdMs: number;
+}
+
+interface HeldGesture {
+  gesture: Gesture;
+  since: number;
+  fired: Set<GestureBinding>;
+}
+
+/**
+ * Binds gestures to app actions. Actions fire once per gesture, not on every
+ * frame it is held: as soon as the hand enters it, or once it has been held
+ * for the binding's `holdMs`.
+ */
+export const createGestureRegistry = () => {
+  const bindings = new Map<Gesture, Set<GestureBinding>>();
+  const current = new Map<Handedness, HeldGesture>();
+
+  return {
+    bind: (gesture: Gesture, action: GestureAction, holdMs = 0) => {
+      const binding: GestureBinding = { action, holdMs };
+      if (!bindings.has(gesture)) bindings.set(gesture, new Set());
+      bindings.get(gesture)!.add(binding);
+      return () => {
+        bindings.get(gesture)?.delete(binding);
+      };
+    },
+    /** `time` is in ms on the caller's clock, which times holds. */
+    update: (hand: Handedness, gesture: Gesture, time: number) => {
+      let held = current.get(hand);
+      if (held?.gesture !== gesture) {
+        held = { gesture, since: time, fired: new Set() };
+        current.set(hand, held);
+      }
+      const { since, fired } = held;
+      bindings.get(gesture)?.forEach((binding) => {
+        if (fired.has(binding) || time - since < binding.holdMs) return;
+        fired.add(binding);
+        binding.action(hand);
+      });
+    },
+    /** Forgets held gestures, e.g. when a source with another clock takes over. */
+    reset: () => current.clear(),
+  };
+};
+
+export type GestureRegistry = ReturnType<typeof createGestureRegistry>;
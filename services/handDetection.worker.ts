@@ -0,0 +1,36 @@
+import { createHandLandmarker, detectHands } from "@/services/handTracking";
+import { createHandPipeline, HandPipeline } from "@/services/handPipeline";
+import { HandWorkerRequest, HandWorkerResponse } from "@/services/handDetector";
+
+const post = (message: HandWorkerResponse) => self.postMessage(message);
+
+let pipeline: HandPipeline | null = null;
+
+self.onmessage = async (event: MessageEvent<HandWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === "init") {
+    try {
+      await createHandLandmarker();
+      pipeline = createHandPipeline(message.options);
+      post({ type: "ready" });
+    } catch (err: any) {
+      post({ type: "error", message: err?.message ?? String(err) });
+    }
+  } else if (message.type === "configure") {
+    pipeline?.configure(message.options);
+  } else if (message.type === "frame") {
+    // Always answer, so the page never waits on a frame that failed
+    try {
+      const results = detectHands(message.frame, message.timestamp);
+      post({
+        type: "result",
+        hands: pipeline ? pipeline.process(results, message.timestamp, message.view) : [],
+      });
+    } catch (err: any) {
+      post({ type: "error", message: err?.message ?? String(err) });
+    } finally {
+      message.frame.close();
+    }
+  }
+};
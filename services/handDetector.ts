@@ -0,0 +1,153 @@
+import { createHandLandmarker, detectHands } from "@/services/handTracking";
+import {
+  createHandPipeline,
+  HandPipelineOptions,
+  HandView,
+} from "@/services/handPipeline";
+import { HandInputData } from "@/utils/types";
+// Classic worker: MediaPipe loads its wasm glue with importScripts, which
+// module workers don't have
+import HandDetectionWorker from "@/services/handDetection.worker.ts?worker";
+
+export type HandWorkerRequest =
+  | { type: "init"; options: HandPipelineOptions }
+  | { type: "configure"; options: HandPipelineOptions }
+  | { type: "frame"; frame: ImageBitmap; timestamp: number; view: HandView };
+
+export type HandWorkerResponse =
+  | { type: "ready" }
+  | { type: "error"; message: string }
+  | { type: "result"; hands: HandInputData[] };
+
+export interface HandDetector {
+  /** Where detection runs: a worker, or the main thread as a fallback. */
+  mode: "worker" | "main";
+  /**
+   * Detects hands in the current video frame, downscaled by `inputScale`.
+   * Resolves with one entry per hand, or null when the previous frame is
+   * still being processed.
+   */
+  detect: (
+    video: HTMLVideoElement,
+    timestamp: number,
+    view: HandView,
+    inputScale?: number
+  ) => Promise<HandInputData[] | null>;
+  configure: (options: HandPipelineOptions) => void;
+  destroy: () => void;
+}
+
+// Loading the wasm and model can take a while on slow connections
+const WORKER_INIT_TIMEOUT_MS = 20000;
+
+const createWorkerDetector = (options: HandPipelineOptions) =>
+  new Promise<HandDetector>((resolve, reject) => {
+    const worker = new HandDetectionWorker();
+    const send = (message: HandWorkerRequest, transfer: Transferable[] = []) =>
+      worker.postMessage(message, transfer);
+    let isReady = false;
+    let pending: ((hands: HandInputData[]) => void) | null = null;
+
+    const fail = (message: string) => {
+      if (isReady) {
+        console.warn("Hand detection worker error:", message);
+        pending?.([]);
+        pending = null;
+        return;
+      }
+      clearTimeout(initTimeout);
+      worker.terminate();
+      reject(new Error(message));
+    };
+
+    const initTimeout = setTimeout(
+      () => fail("Hand detection worker didn't start in time"),
+      WORKER_INIT_TIMEOUT_MS
+    );
+
+    worker.onerror = (event) => fail(event.message || "Worker failed to load");
+    worker.onmessage = (event: MessageEvent<HandWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "error") {
+        fail(message.message);
+      } else if (message.type === "result") {
+        pending?.(message.hands);
+        pending = null;
+      } else {
+        isReady = true;
+        clearTimeout(initTimeout);
+        resolve({
+          mode: "worker",
+          detect: async (video, timestamp, view, inputScale = 1) => {
+            if (pending) return null;
+            const frame = await createImageBitmap(
+              video,
+              inputScale < 1
+                ? {
+                    resizeWidth: Math.round(video.videoWidth * inputScale),
+                    resizeHeight: Math.round(video.videoHeight * inputScale),
+                    resizeQuality: "low",
+                  }
+                : undefined
+            );
+            return new Promise((done) => {
+              pending = done;
+              send({ type: "frame", frame, timestamp, view }, [frame]);
+            });
+          },
+          configure: (next) => send({ type: "configure", options: next }),
+          destroy: () => {
+            pending = null;
+            worker.terminate();
+          },
+        });
+      }
+    };
+
+    send({ type: "init", options });
+  });
+
+const createMainThreadDetector = async (options: HandPipelineOptions): Promise<HandDetector> => {
+  await createHandLandmarker();
+  const pipeline = createHandPipeline(options);
+  // Downscaled frames are drawn here before detection
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+
+  const getFrame = (video: HTMLVideoElement, inputScale: number) => {
+    if (inputScale >= 1 || !context) return video;
+    const width = Math.round(video.videoWidth * inputScale);
+    const height = Math.round(video.videoHeight * inputScale);
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  };
+
+  return {
+    mode: "main",
+    detect: async (video, timestamp, view, inputScale = 1) =>
+      pipeline.process(detectHands(getFrame(video, inputScale), timestamp), timestamp, view),
+    configure: pipeline.configure,
+    destroy: () => {},
+  };
+};
+
+/**
+ * Runs hand detection in a Web Worker fed with `ImageBitmap` frames, so
+ * MediaPipe doesn't compete with rendering. Falls back to the main thread
+ * where workers or `createImageBitmap` aren't available, or the worker
+ * fails to start (as in the dev server, which serves workers as modules).
+ */
+export const createHandDetector = async (
+  options: HandPipelineOptions = {}
+): Promise<HandDetector> => {
+  if (typeof Worker !== "undefined" && typeof createImageBitmap !== "undefined") {
+    try {
+      return await createWorkerDetector(options);
+    } catch (err) {
+      console.warn("Hand detection worker unavailable, running on the main thread", err);
+    }
+  }
+  return createMainThreadDetector(options);
+};
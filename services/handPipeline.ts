@@ -0,0 +1,112 @@
+import { HandLandmarkerResult } from "@mediapipe/tasks-vision";
+import {
+  createCursorFilter,
+  CursorFilterOptions,
+  CursorMapping,
+  getApparentHandSize,
+  getCursorPosition,
+  getPinchRatio,
+  getTrackedHands,
+  PinchThresholds,
+} from "@/services/handTracking";
+import { createGestureClassifier, createRecognizers } from "@/services/gestures";
+import { Gesture, Handedness, HandInputData } from "@/utils/types";
+
+export interface HandPipelineOptions {
+  /** Cursor smoothing; One Euro with default tuning when omitted. */
+  cursorFilter?: Partial<CursorFilterOptions>;
+  /** Calibrated pinch thresholds; defaults when omitted. */
+  pinchThresholds?: PinchThresholds;
+}
+
+/** Screen and preview geometry the cursor is mapped into. */
+export interface HandView {
+  screenWidth: number;
+  screenHeight: number;
+  mapping: CursorMapping;
+}
+
+export const HANDS: Handedness[] = ["Right", "Left"];
+
+// A hand missing for less than this still counts as seen (brief dropouts)
+const LOST_HAND_GRACE_MS = 140;
+
+/**
+ * Turns raw landmarker results into one `HandInputData` per hand: gesture,
+ * filtered cursor and hand size, with short dropouts bridged. Has no DOM
+ * dependencies so it runs the same in the detection worker and on the
+ * main thread.
+ */
+export const createHandPipeline = (options: HandPipelineOptions = {}) => {
+  let settings = options;
+
+  const createHandState = () => ({
+    classifier: createGestureClassifier(createRecognizers(settings.pinchThresholds)),
+    filter: createCursorFilter(settings.cursorFilter),
+    gesture: "none" as Gesture,
+    lastCursor: { x: 0, y: 0 },
+    lastDetectedAt: -Infinity,
+  });
+
+  let hands: Record<Handedness, ReturnType<typeof createHandState>> = {
+    Right: createHandState(),
+    Left: createHandState(),
+  };
+
+  return {
+    process: (results: HandLandmarkerResult | null, now: number, view: HandView) => {
+      const frame: HandInputData[] = [];
+      const seen = new Set<Handedness>();
+
+      getTrackedHands(results).forEach(({ hand, landmarks }) => {
+        seen.add(hand);
+
+        const state = hands[hand];
+        state.gesture = state.classifier.classify(landmarks);
+        state.lastCursor = state.filter.filter(
+          getCursorPosition(landmarks, view.screenWidth, view.screenHeight, view.mapping),
+          now
+        );
+        state.lastDetectedAt = now;
+
+        frame.push({
+          hand,
+          cursor: state.lastCursor,
+          gesture: state.gesture,
+          handSize: getApparentHandSize(landmarks),
+          pinchRatio: getPinchRatio(landmarks),
+          isDetected: true,
+        });
+      });
+
+      HANDS.forEach((hand) => {
+        if (seen.has(hand)) return;
+
+        const state = hands[hand];
+        const stillDetected = now - state.lastDetectedAt < LOST_HAND_GRACE_MS;
+
+        if (!stillDetected) {
+          state.classifier.reset();
+          state.filter.reset();
+          state.gesture = "none";
+        }
+
+        frame.push({
+          hand,
+          cursor: state.lastCursor,
+          gesture: state.gesture,
+          isDetected: stillDetected,
+        });
+      });
+
+      return frame;
+    },
+    /** Applies new options; per-hand gesture and filter state starts over. */
+    configure: (next: HandPipelineOptions) => {
+      settings = { ...settings, ...next };
+      hands = { Right: createHandState(), Left: createHandState() };
+    },
+  };
+};
+
+export type HandPipeline = ReturnType<typeof createHandPipeline>;
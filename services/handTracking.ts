@@ -2,44 +2,51 @@ import {
   FilesetResolver,
   HandLandmarker,
   HandLandmarkerResult,
+  ImageSource,
+  NormalizedLandmark,
 } from "@mediapipe/tasks-vision";
+import { getAssetUrl, getWasmBaseUrl, HAND_LANDMARKER_MODEL } from "@/services/assets";
+import { Handedness, Rect } from "@/utils/types";
+import { clamp } from "@/utils/utils";
 
 let handLandmarker: HandLandmarker | undefined;
 let handLandmarkerPromise: Promise<HandLandmarker> | null = null;
 
-export const createHandLandmarker = async (): Promise<HandLandmarker> => {
-  if (handLandmarker) return handLandmarker;
-  if (handLandmarkerPromise) return handLandmarkerPromise;
+/**
+ * A new landmarker of its own. Use this when timestamps can't share the
+ * live tracker's clock, e.g. analysing a clip frame by frame; otherwise use
+ * `createHandLandmarker`.
+ */
+export const loadHandLandmarker = async (): Promise<HandLandmarker> => {
+  const vision = await FilesetResolver.forVisionTasks(getWasmBaseUrl());
 
-  handLandmarkerPromise = (async () => {
-    const vision = await FilesetResolver.forVisionTasks(
-      "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.22-rc.20250304/wasm"
-    );
-
-    // Firefox can fail GPU delegation on some setups. Try GPU first, then fall back to CPU.
-    const createWithDelegate = async (delegate: "GPU" | "CPU") =>
-      HandLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath:
-            "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
-          delegate,
-        },
-        runningMode: "VIDEO",
-        numHands: 1,
-      });
+  // Firefox can fail GPU delegation on some setups. Try GPU first, then fall back to CPU.
+  const createWithDelegate = async (delegate: "GPU" | "CPU") =>
+    HandLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        modelAssetPath: getAssetUrl(HAND_LANDMARKER_MODEL),
+        delegate,
+      },
+      runningMode: "VIDEO",
+      numHands: 2,
+    });
 
-    let instance: HandLandmarker;
+  try {
+    return await createWithDelegate("GPU");
+  } catch (gpuError) {
+    console.warn("HandLandmarker GPU delegate failed, falling back to CPU", gpuError);
+    return createWithDelegate("CPU");
+  }
+};
 
-    try {
-      instance = await createWithDelegate("GPU");
-    } catch (gpuError) {
-      console.warn("HandLandmarker GPU delegate failed, falling back to CPU", gpuError);
-      instance = await createWithDelegate("CPU");
-    }
+export const createHandLandmarker = async (): Promise<HandLandmarker> => {
+  if (handLandmarker) return handLandmarker;
+  if (handLandmarkerPromise) return handLandmarkerPromise;
 
+  handLandmarkerPromise = loadHandLandmarker().then((instance) => {
     handLandmarker = instance;
     return instance;
-  })();
+  });
 
   try {
     return await handLandmarkerPromise;
@@ -49,13 +56,44 @@ export const createHandLandmarker = async (): Promise<HandLandmarker> => {
 };
 
 export const detectHands = (
-  video: HTMLVideoElement, 
+  video: ImageSource,
   startTimeMs: number
 ): HandLandmarkerResult | null => {
   if (!handLandmarker) return null;
   return handLandmarker.detectForVideo(video, startTimeMs);
 };
 
+/**
+ * Handedness of detected hand `index`. MediaPipe labels hands as if the frame
+ * were mirrored; the raw webcam frame isn't, so the label is flipped to match
+ * the player's own left and right.
+ */
+export const getHandedness = (
+  results: HandLandmarkerResult,
+  index: number
+): Handedness | null => {
+    const label = results.handedness?.[index]?.[0]?.categoryName;
+    if (label === "Left") return "Right";
+    if (label === "Right") return "Left";
+    return null;
+};
+
+/**
+ * Every detected hand with its landmarks, at most one per handedness. When
+ * both detections get the same label the more confident (first) one wins.
+ */
+export const getTrackedHands = (results: HandLandmarkerResult | null) => {
+    const hands: { hand: Handedness; landmarks: NormalizedLandmark[] }[] = [];
+
+    results?.landmarks?.forEach((landmarks, index) => {
+        const hand = getHandedness(results, index);
+        if (!hand || hands.some((tracked) => tracked.hand === hand)) return;
+        hands.push({ hand, landmarks });
+    });
+
+    return hands;
+};
+
 /**
  * Calculates distance between two 3D points
  */
@@ -65,36 +103,272 @@ export const getDistance = (p1: {x: number, y: number}, p2: {x: number, y: numbe
     return Math.sqrt(a * a + b * b);
 }
 
+/**
+ * Hand size on screen: wrist (0) to middle finger knuckle (9). Stays roughly
+ * constant across poses, so it scales with distance from the camera only.
+ */
+export const getHandScale = (landmarks: any[]) => getDistance(landmarks[0], landmarks[9]);
+
+/**
+ * Wrist to middle knuckle in 3D, using landmark z (depth relative to the
+ * wrist), so tilting the hand isn't mistaken for moving it. Grows as the
+ * hand comes toward the camera.
+ */
+export const getApparentHandSize = (landmarks: any[]) => {
+    const wrist = landmarks[0];
+    const knuckle = landmarks[9];
+    return Math.hypot(wrist.x - knuckle.x, wrist.y - knuckle.y, (wrist.z ?? 0) - (knuckle.z ?? 0));
+};
+
+/**
+ * Thumb tip (4) to index tip (8) distance in hand-scale units, so the same
+ * pinch reads the same near or far from the camera.
+ */
+export const getPinchRatio = (landmarks: any[]) =>
+    getDistance(landmarks[4], landmarks[8]) / Math.max(getHandScale(landmarks), 0.0001);
+
+/** Pinch ratios that start and release a pinch (hysteresis). */
+export interface PinchThresholds {
+    start: number;
+    release: number;
+}
+
+export const DEFAULT_PINCH_THRESHOLDS: PinchThresholds = {
+    start: 0.35,
+    release: 0.5,
+};
+
 /**
  * Determines if the user is pinching based on Index finger tip (8) and Thumb tip (4)
  */
-export const isPinching = (landmarks: any[], wasPinching: boolean = false) => {
+export const isPinching = (
+    landmarks: any[],
+    wasPinching: boolean = false,
+    thresholds: PinchThresholds = DEFAULT_PINCH_THRESHOLDS
+) => {
     if (!landmarks || landmarks.length === 0) return false;
-    
-    // Landmarks are normalized [0, 1].
-    // Thumb tip is index 4, Index tip is index 8
-    const thumbTip = landmarks[4];
-    const indexTip = landmarks[8];
-    
+
     // Hysteresis thresholds to avoid flicker
-    const START_THRESHOLD = 0.14;
-    const RELEASE_THRESHOLD = 0.18;
-    const distance = getDistance(thumbTip, indexTip);
-    return wasPinching ? distance < RELEASE_THRESHOLD : distance < START_THRESHOLD;
+    const ratio = getPinchRatio(landmarks);
+    return wasPinching ? ratio < thresholds.release : ratio < thresholds.start;
+};
+
+export interface CursorMapping {
+    /** Camera frame size, to match the `object-cover` crop of the preview. */
+    videoWidth?: number;
+    videoHeight?: number;
+    /**
+     * "Virtual trackpad": a sub-rectangle of the mirrored camera frame, in
+     * 0..1 fractions, stretched over the whole screen.
+     */
+    activeZone?: Rect | null;
+}
+
+/**
+ * Size and offset of a frame shown with `object-cover` on the screen. The
+ * frame overflows one axis and is cropped equally on both sides. Without
+ * frame dimensions it is assumed to fill the screen exactly.
+ */
+export const getCoverTransform = (
+    screenWidth: number,
+    screenHeight: number,
+    videoWidth?: number,
+    videoHeight?: number
+) => {
+    if (!videoWidth || !videoHeight) {
+        return { width: screenWidth, height: screenHeight, offsetX: 0, offsetY: 0 };
+    }
+
+    const scale = Math.max(screenWidth / videoWidth, screenHeight / videoHeight);
+    const width = videoWidth * scale;
+    const height = videoHeight * scale;
+    return { width, height, offsetX: (screenWidth - width) / 2, offsetY: (screenHeight - height) / 2 };
 };
 
 /**
  * Gets the cursor position from landmarks (using Index Finger Tip)
- * Maps normalized coordinates to screen coordinates.
+ * Maps normalized coordinates to screen coordinates so the cursor sits on
+ * the fingertip in the preview, or stretches the active zone to the screen.
  */
-export const getCursorPosition = (landmarks: any[], screenWidth: number, screenHeight: number) => {
+export const getCursorPosition = (
+    landmarks: any[],
+    screenWidth: number,
+    screenHeight: number,
+    mapping: CursorMapping = {}
+) => {
     if (!landmarks || landmarks.length === 0) return { x: 0, y: 0 };
-    
+
     const indexTip = landmarks[8];
-    
+
     // Mirror X axis because webcam is mirrored
+    const x = 1 - indexTip.x;
+    const y = indexTip.y;
+
+    const zone = mapping.activeZone;
+    if (zone) {
+        return {
+            x: clamp(0, 1, (x - zone.x) / zone.width) * screenWidth,
+            y: clamp(0, 1, (y - zone.y) / zone.height) * screenHeight
+        };
+    }
+
+    const cover = getCoverTransform(screenWidth, screenHeight, mapping.videoWidth, mapping.videoHeight);
     return {
-        x: (1 - indexTip.x) * screenWidth,
-        y: indexTip.y * screenHeight
+        x: clamp(0, screenWidth, cover.offsetX + x * cover.width),
+        y: clamp(0, screenHeight, cover.offsetY + y * cover.height)
     };
 }
+
+export interface OneEuroOptions {
+    /** Cutoff frequency at rest, in Hz. Lower removes more tremor but adds lag. */
+    minCutoff: number;
+    /** How quickly the cutoff opens up with speed. Higher reduces lag on fast moves. */
+    beta: number;
+    /** Cutoff used to smooth the speed estimate itself, in Hz. */
+    derivativeCutoff: number;
+}
+
+export interface KalmanOptions {
+    /** Process noise: how much the velocity is expected to change (px/s²). */
+    processNoise: number;
+    /** Measurement noise: landmark jitter, in px. */
+    measurementNoise: number;
+}
+
+export type CursorFilterType = "none" | "oneEuro" | "kalman";
+
+export interface CursorFilterOptions {
+    type: CursorFilterType;
+    oneEuro: OneEuroOptions;
+    kalman: KalmanOptions;
+}
+
+export const DEFAULT_CURSOR_FILTER: CursorFilterOptions = {
+    type: "oneEuro",
+    oneEuro: { minCutoff: 1.2, beta: 0.01, derivativeCutoff: 1 },
+    kalman: { processNoise: 4000, measurementNoise: 6 },
+};
+
+/** A 1D filter fed with values and their timestamps in seconds. */
+export interface ScalarFilter {
+    filter: (value: number, time: number) => number;
+    reset: () => void;
+}
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+};
+
+/**
+ * One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises
+ * with speed, so slow aiming is steady and fast flicks stay responsive.
+ */
+export const createOneEuroFilter = (options: OneEuroOptions): ScalarFilter => {
+    let last: { value: number; derivative: number; time: number } | null = null;
+
+    return {
+        filter: (value, time) => {
+            if (!last || time <= last.time) {
+                last = { value, derivative: 0, time };
+                return value;
+            }
+
+            const dt = time - last.time;
+            const rawDerivative = (value - last.value) / dt;
+            const alphaD = smoothingFactor(options.derivativeCutoff, dt);
+            const derivative = last.derivative + alphaD * (rawDerivative - last.derivative);
+
+            const cutoff = options.minCutoff + options.beta * Math.abs(derivative);
+            const alpha = smoothingFactor(cutoff, dt);
+            const filtered = last.value + alpha * (value - last.value);
+
+            last = { value: filtered, derivative, time };
+            return filtered;
+        },
+        reset: () => {
+            last = null;
+        },
+    };
+};
+
+/**
+ * Constant-velocity Kalman filter over [position, velocity]. Smoother than
+ * One Euro on steady sweeps, at the cost of some overshoot on sharp stops.
+ */
+export const createKalmanFilter = ({ processNoise, measurementNoise }: KalmanOptions): ScalarFilter => {
+    let state: { x: number; v: number; p: number[][]; time: number } | null = null;
+    const r = measurementNoise * measurementNoise;
+
+    return {
+        filter: (value, time) => {
+            if (!state || time <= state.time) {
+                state = { x: value, v: 0, p: [[r, 0], [0, r]], time };
+                return value;
+            }
+
+            const dt = time - state.time;
+            const [[p00, p01], [p10, p11]] = state.p;
+
+            // Predict
+            const x = state.x + state.v * dt;
+            const v = state.v;
+            const q = processNoise * processNoise;
+            const q00 = (q * dt ** 4) / 4;
+            const q01 = (q * dt ** 3) / 2;
+            const q11 = q * dt * dt;
+            const pp00 = p00 + dt * (p10 + p01) + dt * dt * p11 + q00;
+            const pp01 = p01 + dt * p11 + q01;
+            const pp10 = p10 + dt * p11 + q01;
+            const pp11 = p11 + q11;
+
+            // Update with the measured position
+            const s = pp00 + r;
+            const k0 = pp00 / s;
+            const k1 = pp10 / s;
+            const innovation = value - x;
+
+            state = {
+                x: x + k0 * innovation,
+                v: v + k1 * innovation,
+                p: [
+                    [(1 - k0) * pp00, (1 - k0) * pp01],
+                    [pp10 - k1 * pp00, pp11 - k1 * pp01],
+                ],
+                time,
+            };
+            return state.x;
+        },
+        reset: () => {
+            state = null;
+        },
+    };
+};
+
+/**
+ * Smooths screen-space cursor positions, one filter per axis. Pure apart
+ * from its own state, so it can be replayed over recorded sequences.
+ */
+export const createCursorFilter = (overrides: Partial<CursorFilterOptions> = {}) => {
+    const options: CursorFilterOptions = { ...DEFAULT_CURSOR_FILTER, ...overrides };
+    const createAxis = (): ScalarFilter | null =>
+        options.type === "oneEuro"
+            ? createOneEuroFilter(options.oneEuro)
+            : options.type === "kalman"
+                ? createKalmanFilter(options.kalman)
+                : null;
+    const axes = [createAxis(), createAxis()];
+
+    return {
+        /** `timeMs` as from `performance.now()`. */
+        filter: (point: { x: number; y: number }, timeMs: number) => {
+            const [xFilter, yFilter] = axes;
+            if (!xFilter || !yFilter) return point;
+            const time = timeMs / 1000;
+            return { x: xFilter.filter(point.x, time), y: yFilter.filter(point.y, time) };
+        },
+        reset: () => axes.forEach((axis) => axis?.reset()),
+    };
+};
+
+export type CursorFilter = ReturnType<typeof createCursorFilter>;
@@ -0,0 +1,131 @@
+import { clamp } from "@/utils/utils";
+
+/**
+ * Plays a set of still images as a clip: each frame is drawn onto a canvas
+ * and the canvas is captured as a stream, so an image sequence goes through
+ * the same `<video>` element and detection loop as the camera. Frames are
+ * decoded one at a time, so long sequences don't have to fit in memory.
+ */
+
+export interface ImageSequencePlayer {
+  /** The canvas capture; attach it to a video element like a camera stream. */
+  stream: MediaStream;
+  frameCount: number;
+  isPaused: () => boolean;
+  play: () => void;
+  pause: () => void;
+  /** Pauses and moves by `frames`, stopping at the first and last frame. */
+  step: (frames: number) => void;
+  setLoop: (loop: boolean) => void;
+  destroy: () => void;
+}
+
+export interface ImageSequenceOptions {
+  fps: number;
+  loop: boolean;
+  /** Called when playback pauses or resumes, including at the end of the sequence. */
+  onPlaybackChange?: (paused: boolean) => void;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+export const isImageFile = (file: File) => file.type.startsWith("image/");
+
+/** Orders frames by file name, numbers compared by value (frame2 before frame10). */
+export const sortImageSequence = (files: File[]) =>
+  [...files].sort((a, b) => collator.compare(a.name, b.name));
+
+/** Decodes the first frame to size the canvas; frames are played in the order given. */
+export const createImageSequencePlayer = async (
+  files: File[],
+  { fps, loop, onPlaybackChange }: ImageSequenceOptions
+): Promise<ImageSequencePlayer> => {
+  if (!files.length) throw new Error("The image sequence is empty.");
+
+  const first = await createImageBitmap(files[0]).catch(() => {
+    throw new Error(`${files[0].name} can't be decoded by the browser.`);
+  });
+  const canvas = document.createElement("canvas");
+  canvas.width = first.width;
+  canvas.height = first.height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas 2D is not available in this browser.");
+  context.drawImage(first, 0, 0);
+  first.close();
+
+  const stream = canvas.captureStream();
+  const interval = 1000 / fps;
+  const last = files.length - 1;
+  let current = 0;
+  let paused = false;
+  let destroyed = false;
+  let timer: number | null = null;
+  // Only the latest requested frame is drawn when decodes overlap
+  let request = 0;
+
+  const showFrame = async (index: number) => {
+    const id = ++request;
+    try {
+      const bitmap = await createImageBitmap(files[index]);
+      if (id === request && !destroyed) {
+        // Frames of another size are stretched to the first one
+        context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        current = index;
+      }
+      bitmap.close();
+    } catch (err) {
+      console.warn(`Skipping frame ${files[index].name}`, err);
+      if (id === request) current = index;
+    }
+  };
+
+  const setPaused = (value: boolean) => {
+    if (paused === value) return;
+    paused = value;
+    onPlaybackChange?.(value);
+  };
+
+  const cancelTimer = () => {
+    if (timer !== null) window.clearTimeout(timer);
+    timer = null;
+  };
+
+  const advance = async () => {
+    timer = null;
+    await showFrame(current === last ? 0 : current + 1);
+    if (destroyed || paused) return;
+    if (!loop && current === last) setPaused(true);
+    else if (timer === null) timer = window.setTimeout(advance, interval);
+  };
+
+  const pause = () => {
+    cancelTimer();
+    setPaused(true);
+  };
+
+  timer = window.setTimeout(advance, interval);
+
+  return {
+    stream,
+    frameCount: files.length,
+    isPaused: () => paused,
+    play: () => {
+      if (!paused || destroyed) return;
+      setPaused(false);
+      timer = window.setTimeout(advance, interval);
+    },
+    pause,
+    step: (frames) => {
+      pause();
+      showFrame(clamp(0, last, current + frames));
+    },
+    setLoop: (value) => {
+      loop = value;
+    },
+    destroy: () => {
+      destroyed = true;
+      cancelTimer();
+      stream.getTracks().forEach((track) => track.stop());
+    },
+  };
+};
@@ -0,0 +1,359 @@
+import { GestureRegistry } from "@/services/gestures";
+import { MAX_PULL_DISTANCE } from "@/services/projectile";
+import {
+  HandInputData,
+  Handedness,
+  InputEvent,
+  InputListener,
+  InputSource,
+  Point,
+} from "@/utils/types";
+
+type EmittedEvent = Omit<InputEvent, "pointerId" | "cursorIndex"> &
+  Partial<Pick<InputEvent, "pointerId" | "cursorIndex">>;
+
+/**
+ * Small listener registry shared by every input source. Single-pointer
+ * sources emit under `pointerId` with the first cursor sprite.
+ */
+export const createInputEmitter = (pointerId: string) => {
+  const listeners = new Set<InputListener>();
+
+  return {
+    emit: (event: EmittedEvent) => {
+      const full: InputEvent = { pointerId, cursorIndex: 0, ...event };
+      listeners.forEach((listener) => listener(full));
+    },
+    subscribe: (listener: InputListener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    clear: () => listeners.clear(),
+  };
+};
+
+/**
+ * Mouse, pen and touch via Pointer Events on `target`. Every active pointer
+ * keeps its own id, so several fingers can pull at once. Leaving `container`
+ * hides the cursor.
+ */
+export const createPointerInputSource = (
+  target: HTMLElement,
+  container: HTMLElement = target
+): InputSource => {
+  const emitter = createInputEmitter("pointer");
+  const pressed = new Set<number>();
+  let cursor: Point = { x: 0, y: 0 };
+
+  const emitFrom = (type: InputEvent["type"], e: PointerEvent) => {
+    const point = { x: e.clientX, y: e.clientY };
+    if (e.isPrimary) cursor = point;
+    emitter.emit({
+      type,
+      pointerId: `pointer-${e.pointerId}`,
+      cursorIndex: e.isPrimary ? 0 : null,
+      cursor: point,
+      visible: true,
+    });
+  };
+
+  const onDown = (e: PointerEvent) => {
+    if (e.button > 0) return;
+    pressed.add(e.pointerId);
+    // Keep receiving this pointer's moves even when it leaves the target
+    target.setPointerCapture?.(e.pointerId);
+    emitFrom("press", e);
+  };
+  const onMove = (e: PointerEvent) => emitFrom("move", e);
+  const onUp = (e: PointerEvent) => {
+    if (!pressed.delete(e.pointerId)) return;
+    emitFrom("release", e);
+  };
+  // The browser took the pointer (a scroll or system gesture), so no shot
+  const onCancel = (e: PointerEvent) => {
+    if (!pressed.delete(e.pointerId)) return;
+    emitFrom("cancel", e);
+  };
+
+  target.addEventListener("pointerdown", onDown);
+  target.addEventListener("pointermove", onMove);
+  target.addEventListener("pointerup", onUp);
+  target.addEventListener("pointercancel", onCancel);
+
+  const mouseLeave = () => emitter.emit({ type: "move", cursor, visible: false });
+  container.addEventListener("mouseleave", mouseLeave);
+
+  return {
+    subscribe: emitter.subscribe,
+    destroy: () => {
+      target.removeEventListener("pointerdown", onDown);
+      target.removeEventListener("pointermove", onMove);
+      target.removeEventListener("pointerup", onUp);
+      target.removeEventListener("pointercancel", onCancel);
+      container.removeEventListener("mouseleave", mouseLeave);
+      pressed.clear();
+      emitter.clear();
+    },
+  };
+};
+
+/** Time source for hand debounces and gesture holds, in ms. */
+export interface InputClock {
+  now: () => number;
+  setTimeout: (callback: () => void, delay: number) => number;
+  clearTimeout: (handle: number) => void;
+}
+
+export const realtimeClock: InputClock = {
+  now: () => performance.now(),
+  setTimeout: (callback, delay) => window.setTimeout(callback, delay),
+  clearTimeout: (handle) => window.clearTimeout(handle),
+};
+
+export interface HandInputOptions {
+  /** How long the pinch must stay open before the shot fires, in ms. */
+  releaseDelay?: number;
+  /** Receives each hand's gesture before the pinch is handled. */
+  gestures?: GestureRegistry;
+  /** Wall-clock time by default; replays pass their session time. */
+  clock?: InputClock;
+}
+
+export interface HandInputSource extends InputSource {
+  /** Feeds one frame of one tracked hand into the source. */
+  push: (data: HandInputData) => void;
+  /** Drops the pull held by `hand` without firing it. */
+  cancel: (hand: Handedness) => void;
+}
+
+// Player one (right hand) keeps the main cursor; the left hand gets the second
+const HAND_CURSORS: Record<Handedness, number> = { Right: 0, Left: 1 };
+
+/** How hand depth feeds pull power: ignored, added to the drag, or used alone. */
+export type DepthPullMode = "off" | "add" | "replace";
+
+export const DEPTH_PULL_MODES: readonly DepthPullMode[] = ["off", "add", "replace"];
+
+// Apparent hand growth since the pinch started that counts as a full pull
+const DEPTH_PULL_RANGE = 0.6;
+
+const getDepthPull = (startSize: number | null, size: number | undefined) =>
+  startSize && size
+    ? (Math.min(Math.max(size / startSize - 1, 0), DEPTH_PULL_RANGE) / DEPTH_PULL_RANGE) *
+      MAX_PULL_DISTANCE
+    : undefined;
+
+/**
+ * Turns per-frame hand tracking into press/move/release events: a pinch
+ * presses, holding it moves, and opening the hand (or losing it) releases.
+ * The release is debounced so a single noisy frame doesn't fire the shot.
+ * Each hand is tracked independently under its own pointer id. Gestures
+ * reach the registry first, so a bound action can cancel the pull.
+ */
+export const createHandInputSource = ({
+  releaseDelay = 80,
+  gestures,
+  clock = realtimeClock,
+}: HandInputOptions = {}): HandInputSource => {
+  const emitter = createInputEmitter("hand");
+  const hands = new Map<
+    Handedness,
+    {
+      isPressed: boolean;
+      releaseTimeout: number | null;
+      lastCursor: Point;
+      startSize: number | null;
+      depthPull: number | undefined;
+    }
+  >();
+
+  const cancelRelease = (hand: Handedness) => {
+    const state = hands.get(hand);
+    if (!state || state.releaseTimeout === null) return;
+    clock.clearTimeout(state.releaseTimeout);
+    state.releaseTimeout = null;
+  };
+
+  const emit = (
+    hand: Handedness,
+    type: InputEvent["type"],
+    at: Point,
+    visible: boolean,
+    depthPull?: number
+  ) =>
+    emitter.emit({
+      type,
+      pointerId: `hand-${hand.toLowerCase()}`,
+      cursorIndex: HAND_CURSORS[hand],
+      cursor: at,
+      depthPull,
+      visible,
+    });
+
+  const cancel = (hand: Handedness) => {
+    const state = hands.get(hand);
+    if (!state?.isPressed) return;
+    cancelRelease(hand);
+    state.isPressed = false;
+    emit(hand, "cancel", state.lastCursor, true);
+  };
+
+  const push = ({ hand, cursor, gesture, handSize, isDetected }: HandInputData) => {
+    let state = hands.get(hand);
+    if (!state) {
+      state = {
+        isPressed: false,
+        releaseTimeout: null,
+        lastCursor: cursor,
+        startSize: null,
+        depthPull: undefined,
+      };
+      hands.set(hand, state);
+    }
+    state.lastCursor = cursor;
+    gestures?.update(hand, isDetected ? gesture : "none", clock.now());
+
+    if (isDetected && gesture === "pinch") {
+      // A confident pinch cancels any pending release
+      cancelRelease(hand);
+
+      if (!state.isPressed) {
+        state.isPressed = true;
+        state.startSize = handSize ?? null;
+        emit(hand, "press", cursor, true);
+      }
+      state.depthPull = getDepthPull(state.startSize, handSize);
+      emit(hand, "move", cursor, true, state.depthPull);
+      return;
+    }
+
+    // Hold the last depth while the release is pending; opening the hand
+    // changes its apparent size
+    emit(hand, "move", cursor, isDetected, state.isPressed ? state.depthPull : undefined);
+
+    if (state.isPressed && state.releaseTimeout === null) {
+      const held = state;
+      held.releaseTimeout = clock.setTimeout(() => {
+        held.releaseTimeout = null;
+        held.isPressed = false;
+        emit(hand, "release", held.lastCursor, isDetected);
+      }, releaseDelay);
+    }
+  };
+
+  return {
+    push,
+    cancel,
+    subscribe: emitter.subscribe,
+    destroy: () => {
+      hands.forEach((_, hand) => cancelRelease(hand));
+      hands.clear();
+      emitter.clear();
+    },
+  };
+};
+
+/**
+ * Two-handed slingshot: the first hand to pinch holds the anchor, a pinch on
+ * the other hand pulls from it, and opening the pulling hand fires. Power is
+ * the distance between the two pinch points. Each hand's cursor still
+ * follows it under its own pointer id.
+ */
+export const createTwoHandInputSource = ({
+  releaseDelay = 80,
+  gestures,
+  clock = realtimeClock,
+}: HandInputOptions = {}): HandInputSource => {
+  const emitter = createInputEmitter("two-hand");
+  const hands = new Map<Handedness, { isPinching: boolean; openSince: number | null }>();
+  let anchorHand: Handedness | null = null;
+  let pullHand: Handedness | null = null;
+  let anchor: Point = { x: 0, y: 0 };
+
+  const emitPull = (type: InputEvent["type"], hand: Handedness, cursor: Point) =>
+    emitter.emit({ type, cursorIndex: HAND_CURSORS[hand], cursor, anchor, visible: true });
+
+  let lastPull: Point = { x: 0, y: 0 };
+
+  // Either hand can call off the shot; both must pinch again to restart
+  const cancel = (hand: Handedness) => {
+    if (!pullHand || (hand !== pullHand && hand !== anchorHand)) return;
+    emitPull("cancel", pullHand, lastPull);
+    hands.forEach((state) => {
+      state.isPinching = false;
+      state.openSince = null;
+    });
+    pullHand = null;
+    anchorHand = null;
+  };
+
+  const push = ({ hand, cursor, gesture, isDetected }: HandInputData) => {
+    let state = hands.get(hand);
+    if (!state) {
+      state = { isPinching: false, openSince: null };
+      hands.set(hand, state);
+    }
+    const now = clock.now();
+    gestures?.update(hand, isDetected ? gesture : "none", now);
+    const isPinching = gesture === "pinch";
+
+    // Debounce opening so a single noisy frame doesn't drop the pinch
+    if (isDetected && isPinching) {
+      state.isPinching = true;
+      state.openSince = null;
+    } else if (state.isPinching) {
+      state.openSince ??= now;
+      if (now - state.openSince >= releaseDelay) {
+        state.isPinching = false;
+        state.openSince = null;
+      }
+    }
+
+    emitter.emit({
+      type: "move",
+      pointerId: `hand-${hand.toLowerCase()}`,
+      cursorIndex: HAND_CURSORS[hand],
+      cursor,
+      visible: isDetected,
+    });
+
+    if (!anchorHand) {
+      if (state.isPinching) {
+        anchorHand = hand;
+        anchor = cursor;
+      }
+    } else if (hand === anchorHand) {
+      // The anchor travels with the holding hand; it lets go only between shots
+      if (state.isPinching) anchor = cursor;
+      else if (!pullHand) anchorHand = null;
+    } else if (!pullHand && state.isPinching) {
+      pullHand = hand;
+      emitPull("press", hand, cursor);
+    }
+
+    if (hand !== pullHand) return;
+
+    lastPull = cursor;
+    if (state.isPinching) {
+      emitPull("move", hand, cursor);
+    } else {
+      emitPull("release", hand, cursor);
+      pullHand = null;
+      if (anchorHand && !hands.get(anchorHand)?.isPinching) anchorHand = null;
+    }
+  };
+
+  return {
+    push,
+    cancel,
+    subscribe: emitter.subscribe,
+    destroy: () => {
+      hands.clear();
+      anchorHand = null;
+      pullHand = null;
+      emitter.clear();
+    },
+  };
+};
@@ -0,0 +1,137 @@
+import { createInputEmitter } from "@/services/input";
+import { MAX_PULL_DISTANCE } from "@/services/projectile";
+import { InputSource, Point } from "@/utils/types";
+
+export interface KeyboardAim {
+  phase: "aim" | "pull";
+  /** Launch direction in degrees: 0 is right, 90 is straight up. */
+  angle: number;
+  /** Share of the maximum pull, 0..1. */
+  power: number;
+}
+
+export interface KeyboardInputOptions {
+  /** Cursor step per arrow press, in px. Shift multiplies it by 4. */
+  moveStep: number;
+  /** Degrees per angle adjustment. */
+  angleStep: number;
+  /** Power change per adjustment (0..1). */
+  powerStep: number;
+  /** Called whenever the aim changes, for on-screen and spoken feedback. */
+  onAimChange?: (aim: KeyboardAim) => void;
+}
+
+export const DEFAULT_KEYBOARD_OPTIONS: KeyboardInputOptions = {
+  moveStep: 12,
+  angleStep: 5,
+  powerStep: 0.05,
+};
+
+const MOVE_KEYS: Record<string, Point> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+// While pulling: left/right turn the shot, up/down change the power
+const AIM_KEYS: Record<string, { angle: number; power: number }> = {
+  ArrowLeft: { angle: 1, power: 0 },
+  KeyA: { angle: 1, power: 0 },
+  ArrowRight: { angle: -1, power: 0 },
+  KeyD: { angle: -1, power: 0 },
+  ArrowUp: { angle: 0, power: 1 },
+  KeyW: { angle: 0, power: 1 },
+  ArrowDown: { angle: 0, power: -1 },
+  KeyS: { angle: 0, power: -1 },
+};
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT", "BUTTON"].includes(target.tagName));
+
+/**
+ * Keyboard-only play. Arrows move the cursor; Space starts a pull at the
+ * cursor, after which arrows or WASD set angle and power; Space fires.
+ */
+export const createKeyboardInputSource = (
+  overrides: Partial<KeyboardInputOptions> = {}
+): InputSource => {
+  const options: KeyboardInputOptions = { ...DEFAULT_KEYBOARD_OPTIONS, ...overrides };
+  const emitter = createInputEmitter("keyboard");
+  let cursor: Point = { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+  let anchor: Point = cursor;
+  let aim: KeyboardAim = { phase: "aim", angle: 90, power: 0 };
+
+  const setAim = (next: KeyboardAim) => {
+    aim = next;
+    options.onAimChange?.(aim);
+  };
+
+  // The pull point sits opposite the launch direction
+  const getPullCursor = (): Point => {
+    const radians = (aim.angle * Math.PI) / 180;
+    const distance = aim.power * MAX_PULL_DISTANCE;
+    return {
+      x: anchor.x - Math.cos(radians) * distance,
+      y: anchor.y + Math.sin(radians) * distance,
+    };
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.altKey || e.ctrlKey || e.metaKey || isEditableTarget(e.target)) return;
+
+    if (e.code === "Space") {
+      e.preventDefault();
+      if (e.repeat) return;
+
+      if (aim.phase === "aim") {
+        anchor = cursor;
+        setAim({ ...aim, phase: "pull" });
+        emitter.emit({ type: "press", cursor, visible: true });
+        emitter.emit({ type: "move", cursor: getPullCursor(), visible: true });
+      } else {
+        emitter.emit({ type: "release", cursor: getPullCursor(), visible: true });
+        cursor = anchor;
+        setAim({ ...aim, phase: "aim" });
+        emitter.emit({ type: "move", cursor, visible: true });
+      }
+      return;
+    }
+
+    if (aim.phase === "pull") {
+      const adjust = AIM_KEYS[e.code];
+      if (!adjust) return;
+      e.preventDefault();
+
+      setAim({
+        ...aim,
+        angle: (aim.angle + adjust.angle * options.angleStep + 360) % 360,
+        power: Math.min(1, Math.max(0, aim.power + adjust.power * options.powerStep)),
+      });
+      emitter.emit({ type: "move", cursor: getPullCursor(), visible: true });
+      return;
+    }
+
+    const direction = MOVE_KEYS[e.code];
+    if (!direction) return;
+    e.preventDefault();
+
+    const step = options.moveStep * (e.shiftKey ? 4 : 1);
+    cursor = {
+      x: Math.min(window.innerWidth, Math.max(0, cursor.x + direction.x * step)),
+      y: Math.min(window.innerHeight, Math.max(0, cursor.y + direction.y * step)),
+    };
+    emitter.emit({ type: "move", cursor, visible: true });
+  };
+
+  window.addEventListener("keydown", onKeyDown);
+
+  return {
+    subscribe: emitter.subscribe,
+    destroy: () => {
+      window.removeEventListener("keydown", onKeyDown);
+      emitter.clear();
+    },
+  };
+};
@@ -0,0 +1,125 @@
+import { isFiniteNumber, isNonEmptyString, parseJsonObject } from "@/services/validation";
+import { Point, Rect } from "@/utils/types";
+
+/**
+ * Level files are plain JSON. Positions and sizes are fractions of the
+ * viewport (0..1) so a level plays the same on any screen size.
+ */
+
+export const LEVEL_VERSION = 1;
+
+export interface LevelTarget extends Point {
+  /** Fraction of the viewport's shorter side. */
+  radius: number;
+  /** Projectile sprite key; random when omitted. */
+  key?: string;
+}
+
+export interface Level {
+  version: number;
+  name: string;
+  targets: LevelTarget[];
+  /** Solid boxes: projectiles detonate on them and confetti bounces off. */
+  obstacles: Rect[];
+  /** Area the slingshot anchor must be placed in. Anywhere when null. */
+  anchorZone: Rect | null;
+  /** Shots allowed for the level. Unlimited when null. */
+  shots: number | null;
+  par: number;
+  /** Round length in seconds. */
+  duration: number;
+}
+
+export const createEmptyLevel = (): Level => ({
+  version: LEVEL_VERSION,
+  name: "Untitled level",
+  targets: [],
+  obstacles: [],
+  anchorZone: null,
+  shots: 5,
+  par: 1000,
+  duration: 60,
+});
+
+const isFraction = (value: unknown): value is number =>
+  isFiniteNumber(value) && value >= 0 && value <= 1;
+
+const parseRect = (value: any, label: string): Rect => {
+  if (
+    !value ||
+    !isFraction(value.x) ||
+    !isFraction(value.y) ||
+    !isFraction(value.width) ||
+    !isFraction(value.height)
+  ) {
+    throw new Error(`${label} needs x, y, width and height between 0 and 1.`);
+  }
+  return { x: value.x, y: value.y, width: value.width, height: value.height };
+};
+
+/**
+ * Reads a level saved by the editor or written by hand. Every position must
+ * already be a viewport fraction; nothing is clamped, so a typo such as
+ * `"x": 12` is reported rather than silently moved on screen.
+ */
+export const parseLevel = (json: string): Level => {
+  const data = parseJsonObject(json, "Level file");
+
+  if (data.version !== LEVEL_VERSION) {
+    throw new Error(`Unsupported level version ${data.version}; expected ${LEVEL_VERSION}.`);
+  }
+  if (!Array.isArray(data.targets) || !data.targets.length) {
+    throw new Error("Level needs at least one target.");
+  }
+
+  const targets = data.targets.map((t: any, i: number): LevelTarget => {
+    if (!t || !isFraction(t.x) || !isFraction(t.y) || !isFraction(t.radius)) {
+      throw new Error(`Target ${i + 1} needs x, y and radius between 0 and 1.`);
+    }
+    return typeof t.key === "string"
+      ? { x: t.x, y: t.y, radius: t.radius, key: t.key }
+      : { x: t.x, y: t.y, radius: t.radius };
+  });
+
+  const obstacles = (data.obstacles ?? []).map((o: any, i: number) =>
+    parseRect(o, `Obstacle ${i + 1}`)
+  );
+
+  const shots = data.shots ?? null;
+  if (shots !== null && !(Number.isInteger(shots) && shots > 0)) {
+    throw new Error("Shots must be a positive whole number, or null for unlimited.");
+  }
+  if (!isFiniteNumber(data.par) || data.par < 0) {
+    throw new Error("Par must be a score of 0 or more.");
+  }
+  if (!isFiniteNumber(data.duration) || data.duration <= 0) {
+    throw new Error("Duration must be a number of seconds greater than 0.");
+  }
+
+  return {
+    version: LEVEL_VERSION,
+    name: isNonEmptyString(data.name) ? data.name : "Untitled level",
+    targets,
+    obstacles,
+    anchorZone: data.anchorZone ? parseRect(data.anchorZone, "Anchor zone") : null,
+    shots,
+    par: data.par,
+    duration: data.duration,
+  };
+};
+
+export const serializeLevel = (level: Level) => JSON.stringify(level, null, 2);
+
+/** Converts a viewport-relative rect into pixels. */
+export const rectToPixels = (rect: Rect, width: number, height: number): Rect => ({
+  x: rect.x * width,
+  y: rect.y * height,
+  width: rect.width * width,
+  height: rect.height * height,
+});
+
+export const isPointInRect = (point: Point, rect: Rect) =>
+  point.x >= rect.x &&
+  point.x <= rect.x + rect.width &&
+  point.y >= rect.y &&
+  point.y <= rect.y + rect.height;
@@ -0,0 +1,132 @@
+import { Particle } from "@/services/physics";
+
+export type ParticleRendererMode = "canvas" | "dom";
+
+/**
+ * Draws the live particles of a physics world. Renderers keep no per-particle
+ * identity: every frame they paint whatever `particles` currently holds.
+ */
+export interface ParticleRenderer {
+  readonly mode: ParticleRendererMode;
+  render: (particles: readonly Particle[]) => void;
+  destroy: () => void;
+}
+
+type SpriteLookup = (key: string) => HTMLImageElement | undefined;
+
+/** Height-driven sprite size that keeps each image's aspect ratio. */
+const getSpriteSize = (sprite: HTMLImageElement, height: number) => {
+  const ratio = sprite.naturalHeight ? sprite.naturalWidth / sprite.naturalHeight : 1;
+  return { width: height * ratio, height };
+};
+
+/**
+ * Paints every particle onto a single full-viewport canvas.
+ * Returns null when a 2D context is unavailable so callers can fall back.
+ */
+export const createCanvasParticleRenderer = (
+  canvas: HTMLCanvasElement,
+  getSprite: SpriteLookup
+): ParticleRenderer | null => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  let dpr = 1;
+  let isClear = true;
+
+  const resize = () => {
+    dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(window.innerWidth * dpr);
+    canvas.height = Math.round(window.innerHeight * dpr);
+    isClear = true;
+  };
+
+  resize();
+  window.addEventListener("resize", resize);
+
+  const render = (particles: readonly Particle[]) => {
+    if (!particles.length && isClear) return;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    isClear = !particles.length;
+
+    for (let i = 0; i < particles.length; i++) {
+      const p = particles[i];
+      const sprite = getSprite(p.key);
+      if (!sprite || p.opacity <= 0) continue;
+
+      const { width, height } = getSpriteSize(sprite, p.size);
+      // Particles are anchored by their top-left corner and spin around their centre
+      ctx.setTransform(dpr, 0, 0, dpr, (p.x + width / 2) * dpr, (p.y + height / 2) * dpr);
+      ctx.rotate((p.rotation * Math.PI) / 180);
+      ctx.globalAlpha = p.opacity;
+      ctx.drawImage(sprite, -width / 2, -height / 2, width, height);
+    }
+
+    ctx.globalAlpha = 1;
+  };
+
+  return {
+    mode: "canvas",
+    render,
+    destroy: () => {
+      window.removeEventListener("resize", resize);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    },
+  };
+};
+
+/**
+ * Fallback renderer: one pooled <img> per live particle. Nodes are created on
+ * demand, hidden when unused and reused by later bursts.
+ */
+export const createDomParticleRenderer = (
+  container: HTMLElement,
+  getSprite: SpriteLookup
+): ParticleRenderer => {
+  const nodes: HTMLImageElement[] = [];
+  let visible = 0;
+
+  const render = (particles: readonly Particle[]) => {
+    let used = 0;
+
+    for (let i = 0; i < particles.length; i++) {
+      const p = particles[i];
+      const sprite = getSprite(p.key);
+      if (!sprite) continue;
+
+      let img = nodes[used];
+      if (!img) {
+        img = document.createElement("img");
+        img.alt = "";
+        img.className = "absolute top-0 left-0 pointer-events-none z-10 will-change-transform";
+        container.appendChild(img);
+        nodes.push(img);
+      }
+      used++;
+
+      if (img.src !== sprite.src) img.src = sprite.src;
+      img.style.display = "";
+      img.style.height = `${p.size}px`;
+      img.style.transform = `translate3d(${p.x}px, ${p.y}px, 0) rotate(${p.rotation}deg)`;
+      img.style.opacity = p.opacity.toString();
+    }
+
+    for (let i = used; i < visible; i++) {
+      nodes[i].style.display = "none";
+    }
+    visible = used;
+  };
+
+  return {
+    mode: "dom",
+    render,
+    destroy: () => {
+      nodes.forEach((img) => img.remove());
+      nodes.length = 0;
+      visible = 0;
+    },
+  };
+};
@@ -0,0 +1,107 @@
+export type PerformanceTier = "high" | "medium" | "low";
+
+/** Best first; the budget steps one tier at a time. */
+export const PERFORMANCE_TIERS: PerformanceTier[] = ["high", "medium", "low"];
+
+export interface TierSettings {
+  /** Minimum time between hand detections, in ms (0 = every frame). */
+  detectionInterval: number;
+  /** Fraction of the camera resolution handed to the detector. */
+  inputScale: number;
+  /** Live particle cap for explosions. */
+  maxParticles: number;
+}
+
+export const TIER_SETTINGS: Record<PerformanceTier, TierSettings> = {
+  high: { detectionInterval: 0, inputScale: 1, maxParticles: 400 },
+  medium: { detectionInterval: 50, inputScale: 0.75, maxParticles: 250 },
+  low: { detectionInterval: 100, inputScale: 0.5, maxParticles: 120 },
+};
+
+export interface PerformanceBudgetOptions {
+  /** Frame rate to hold. */
+  targetFps: number;
+  /** How often the tier is reconsidered, in ms. */
+  evaluateEvery: number;
+  /** Time since the last change before stepping down again, in ms. */
+  downgradeDelay: number;
+  /** Time since the last change before trying a better tier, in ms. */
+  upgradeDelay: number;
+}
+
+export const DEFAULT_PERFORMANCE_BUDGET: PerformanceBudgetOptions = {
+  targetFps: 55,
+  evaluateEvery: 1000,
+  downgradeDelay: 2000,
+  upgradeDelay: 10000,
+};
+
+// Exponential moving average weight for new samples
+const SMOOTHING = 0.1;
+// Longer gaps are tab switches or breakpoints, not slow frames
+const MAX_FRAME_SAMPLE = 250;
+
+/**
+ * Watches frame time and hand detection latency and picks a tier that keeps
+ * the game at its target frame rate. Timestamps are passed in, so it can be
+ * driven by recorded timings.
+ */
+export const createPerformanceBudget = (
+  overrides: Partial<PerformanceBudgetOptions> = {}
+) => {
+  const options: PerformanceBudgetOptions = { ...DEFAULT_PERFORMANCE_BUDGET, ...overrides };
+  const frameBudget = 1000 / options.targetFps;
+  const listeners = new Set<(tier: PerformanceTier) => void>();
+  let tier: PerformanceTier = "high";
+  let frameTime = frameBudget;
+  let detectionLatency = 0;
+  let lastEvaluated: number | null = null;
+  let lastChanged = -Infinity;
+
+  const setTier = (next: PerformanceTier, now: number) => {
+    tier = next;
+    lastChanged = now;
+    listeners.forEach((listener) => listener(tier));
+  };
+
+  const evaluate = (now: number) => {
+    const index = PERFORMANCE_TIERS.indexOf(tier);
+    const sinceChange = now - lastChanged;
+    // Detection slower than two frames lags the cursor (worker) or stalls rendering (main thread)
+    const isOver = frameTime > frameBudget * 1.15 || detectionLatency > frameBudget * 2;
+    const isUnder = frameTime < frameBudget * 1.05 && detectionLatency < frameBudget;
+
+    if (isOver && index < PERFORMANCE_TIERS.length - 1 && sinceChange >= options.downgradeDelay) {
+      setTier(PERFORMANCE_TIERS[index + 1], now);
+    } else if (isUnder && index > 0 && sinceChange >= options.upgradeDelay) {
+      setTier(PERFORMANCE_TIERS[index - 1], now);
+    }
+  };
+
+  return {
+    getTier: () => tier,
+    getSettings: () => TIER_SETTINGS[tier],
+    /** One rendered frame: its duration and the current time, in ms. */
+    recordFrame: (deltaMs: number, now: number) => {
+      if (deltaMs <= 0 || deltaMs > MAX_FRAME_SAMPLE) return;
+      frameTime += (deltaMs - frameTime) * SMOOTHING;
+
+      if (lastEvaluated === null) lastEvaluated = now;
+      if (now - lastEvaluated < options.evaluateEvery) return;
+      lastEvaluated = now;
+      evaluate(now);
+    },
+    /** Time from sending a frame to the detector to getting its hands back, in ms. */
+    recordDetection: (latencyMs: number) => {
+      detectionLatency += (latencyMs - detectionLatency) * SMOOTHING;
+    },
+    subscribe: (listener: (tier: PerformanceTier) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export type PerformanceBudget = ReturnType<typeof createPerformanceBudget>;
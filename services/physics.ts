@@ -0,0 +1,479 @@
+import { Rect } from "@/utils/types";
+import { clamp } from "@/utils/utils";
+
+/**
+ * Headless particle physics for explosions.
+ *
+ * Nothing in here touches the DOM or React, so bursts can be simulated and
+ * inspected in isolation. All randomness flows through a seedable RNG, which
+ * means the same seed always reproduces the same burst.
+ */
+
+// --- Random ---
+
+export interface Rng {
+  readonly seed: number;
+  /** Uniform float in [0, 1). */
+  next: () => number;
+  /** Uniform float in [min, max). */
+  range: (min: number, max: number) => number;
+  /** Unsigned 32-bit integer, handy for deriving child seeds. */
+  int: () => number;
+  pick: <T>(items: readonly T[]) => T;
+}
+
+/**
+ * Mulberry32: tiny, fast and good enough for visual randomness.
+ */
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed: seed >>> 0,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: () => Math.floor(next() * 4294967296) >>> 0,
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// --- Bodies ---
+
+export interface Body {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface Particle extends Body {
+  /** Key into the explosion sprite map. */
+  key: string;
+  size: number;
+  rotation: number;
+  /** Angular velocity in degrees per second. */
+  spin: number;
+  opacity: number;
+  age: number;
+  /** Seconds until the particle is removed. */
+  life: number;
+  /** Seconds the particle takes to fade out at the end of its life. */
+  fade: number;
+  /** Set once the particle has settled on the floor (collisions only). */
+  resting: boolean;
+  /** Game shot the particle's burst came from, if any. */
+  shot: number | null;
+}
+
+export interface CollisionConfig {
+  /** Viewport size the particles are contained in. */
+  width: number;
+  height: number;
+  /** Share of the normal velocity kept after a bounce (0..1). */
+  restitution: number;
+  /** Share of the tangential velocity kept after a bounce (0..1). */
+  friction: number;
+  /** Per-second drag on sliding and spinning once a particle has settled. */
+  rollingDrag: number;
+  /** Bounce speed (px/s) below which a particle settles on the floor. */
+  settleSpeed: number;
+  /** Seconds a particle rests on the floor before it fades out. */
+  restLife: number;
+  /** Longest a particle may stay airborne before it fades anyway. */
+  maxAirTime: number;
+}
+
+export const DEFAULT_COLLISIONS: Omit<CollisionConfig, "width" | "height"> = {
+  restitution: 0.45,
+  friction: 0.8,
+  rollingDrag: 4,
+  settleSpeed: 60,
+  restLife: 3,
+  maxAirTime: 8,
+};
+
+export interface PhysicsConfig {
+  /** Downward acceleration in px/s². */
+  gravity: number;
+  /** Linear drag coefficient per second (0 = no air resistance). */
+  drag: number;
+  /** Fixed simulation step in seconds. */
+  timestep: number;
+  /** Upper bound on steps per `advance` call, so a stalled tab can't spiral. */
+  maxSubSteps: number;
+  /** Live particle budget. Spawning past it recycles the oldest particles. */
+  maxParticles: number;
+  /** Keeps particles inside the viewport when set. */
+  collisions: CollisionConfig | null;
+  /** Solid boxes (px) that particles bounce off. */
+  obstacles: Rect[];
+}
+
+export const DEFAULT_PHYSICS: PhysicsConfig = {
+  gravity: 1400,
+  drag: 1.2,
+  timestep: 1 / 120,
+  maxSubSteps: 12,
+  maxParticles: 400,
+  collisions: null,
+  obstacles: [],
+};
+
+/**
+ * Semi-implicit Euler step with exponential drag.
+ */
+export const integrateBody = (
+  body: Body,
+  dt: number,
+  gravity: number,
+  drag: number = 0
+) => {
+  if (drag > 0) {
+    const damping = Math.exp(-drag * dt);
+    body.vx *= damping;
+    body.vy *= damping;
+  }
+  body.vy += gravity * dt;
+  body.x += body.vx * dt;
+  body.y += body.vy * dt;
+};
+
+export const isParticleAlive = (particle: Particle) => particle.age < particle.life;
+
+/**
+ * Bounces a particle off the viewport edges. Particles are treated as
+ * `size`-sided squares anchored at their top-left corner.
+ */
+export const collideWithBounds = (
+  p: Particle,
+  dt: number,
+  bounds: CollisionConfig
+) => {
+  const maxX = Math.max(0, bounds.width - p.size);
+  const floor = Math.max(0, bounds.height - p.size);
+
+  if (p.resting) {
+    const damping = Math.exp(-bounds.rollingDrag * dt);
+    p.y = floor;
+    p.vy = 0;
+    p.vx *= damping;
+    p.spin *= damping;
+  }
+
+  if (p.x < 0 || p.x > maxX) {
+    p.x = p.x < 0 ? 0 : maxX;
+    p.vx = -p.vx * bounds.restitution;
+    p.vy *= bounds.friction;
+  }
+
+  if (p.y < 0) {
+    p.y = 0;
+    p.vy = -p.vy * bounds.restitution;
+    p.vx *= bounds.friction;
+  }
+
+  if (p.y >= floor && !p.resting) {
+    p.y = floor;
+    p.vy = -p.vy * bounds.restitution;
+    p.vx *= bounds.friction;
+    p.spin *= bounds.friction;
+
+    if (Math.abs(p.vy) < bounds.settleSpeed) {
+      p.vy = 0;
+      p.resting = true;
+      // Fade out after resting for a while rather than mid-flight
+      p.life = p.age + bounds.restLife;
+    }
+  }
+};
+
+/**
+ * Pushes a particle out of a solid box along the shallowest axis and
+ * reflects its velocity on that axis.
+ */
+export const collideWithRect = (
+  p: Particle,
+  rect: Rect,
+  restitution: number = DEFAULT_COLLISIONS.restitution,
+  friction: number = DEFAULT_COLLISIONS.friction
+) => {
+  const left = p.x + p.size - rect.x;
+  const right = rect.x + rect.width - p.x;
+  const top = p.y + p.size - rect.y;
+  const bottom = rect.y + rect.height - p.y;
+  if (left <= 0 || right <= 0 || top <= 0 || bottom <= 0) return;
+
+  const depth = Math.min(left, right, top, bottom);
+
+  if (depth === left || depth === right) {
+    p.x += depth === left ? -left : right;
+    p.vx = -p.vx * restitution;
+    p.vy *= friction;
+  } else {
+    p.y += depth === top ? -top : bottom;
+    p.vy = -p.vy * restitution;
+    p.vx *= friction;
+  }
+};
+
+// --- Explosions ---
+
+const mapRange = (
+  inMin: number,
+  inMax: number,
+  outMin: number,
+  outMax: number,
+  value: number
+) => outMin + ((value - inMin) / (inMax - inMin)) * (outMax - outMin);
+
+export const EXPLOSION_PATTERNS = ["burst", "cone", "ring", "fountain", "spiral"] as const;
+
+export type ExplosionPattern = (typeof EXPLOSION_PATTERNS)[number];
+
+/** A fixed pattern, or "random" to draw one per shot from the RNG. */
+export type PatternChoice = ExplosionPattern | "random";
+
+export const PATTERN_CHOICES: readonly PatternChoice[] = [...EXPLOSION_PATTERNS, "random"];
+
+export interface ExplosionOptions {
+  x: number;
+  y: number;
+  /** Pull distance of the shot; drives count, speed and sprite size. */
+  distance: number;
+  /** Sprite keys to pick from. */
+  keys: readonly string[];
+  /**
+   * Pull angle of the shot in radians (the drag direction from the anchor).
+   * Directional patterns fire along the opposite, i.e. the flight direction.
+   */
+  angle?: number;
+  pattern?: ExplosionPattern;
+  /** Fewer, slower particles that don't spin. */
+  reducedMotion?: boolean;
+  /** Game shot that caused the burst, carried by its particles. */
+  shot?: number | null;
+}
+
+interface PatternEmission {
+  /** Launch direction in radians. */
+  angle: number;
+  /** Multiplier applied to the burst speed. */
+  velocity: number;
+}
+
+type PatternEmitter = (
+  index: number,
+  count: number,
+  direction: number,
+  distance: number,
+  rng: Rng
+) => PatternEmission;
+
+const UP = -Math.PI / 2;
+
+const PATTERN_EMITTERS: Record<ExplosionPattern, PatternEmitter> = {
+  // Uniform random in every direction
+  burst: (_i, _count, _direction, _distance, rng) => ({
+    angle: rng.next() * Math.PI * 2,
+    velocity: rng.range(300, 800),
+  }),
+  // Tightens as the pull gets stronger
+  cone: (_i, _count, direction, distance, rng) => {
+    const spread = mapRange(0, 500, Math.PI / 2, Math.PI / 6, clamp(0, 500, distance));
+    return {
+      angle: direction + rng.range(-spread / 2, spread / 2),
+      velocity: rng.range(500, 900),
+    };
+  },
+  // Evenly spaced, rotated so one spoke points along the shot
+  ring: (i, count, direction, _distance, rng) => ({
+    angle: direction + (i / count) * Math.PI * 2,
+    velocity: 550 * rng.range(0.95, 1.05),
+  }),
+  fountain: (_i, _count, _direction, _distance, rng) => ({
+    angle: UP + rng.range(-Math.PI / 9, Math.PI / 9),
+    velocity: rng.range(600, 1000),
+  }),
+  // Two turns outward from the shot direction, faster further along the arm
+  spiral: (i, count, direction) => {
+    const t = count > 1 ? i / (count - 1) : 0;
+    return {
+      angle: direction + t * Math.PI * 4,
+      velocity: 250 + t * 600,
+    };
+  },
+};
+
+/**
+ * Builds the particles for one burst. Deterministic for a given RNG state.
+ */
+export const createExplosionParticles = (
+  {
+    x,
+    y,
+    distance,
+    keys,
+    angle: pullAngle = Math.PI / 2,
+    pattern = "burst",
+    reducedMotion = false,
+    shot = null,
+  }: ExplosionOptions,
+  rng: Rng
+): Particle[] => {
+  if (!keys.length) return [];
+
+  const fullCount = Math.round(clamp(3, 40, distance / 10));
+  const count = reducedMotion ? Math.ceil(fullCount / 3) : fullCount;
+  const speed = mapRange(0, 500, 0.3, 2.5, distance) * (reducedMotion ? 0.5 : 1);
+  const sizeRange = mapRange(0, 500, 20, 60, distance);
+  const direction = pullAngle + Math.PI;
+  const emit = PATTERN_EMITTERS[pattern];
+  const particles: Particle[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const emission = emit(i, count, direction, distance, rng);
+    const angle = emission.angle;
+    const velocity = emission.velocity * speed;
+
+    particles.push({
+      key: rng.pick(keys),
+      x,
+      y,
+      vx: Math.cos(angle) * velocity,
+      vy: Math.sin(angle) * velocity,
+      size: rng.range(20, Math.max(20, sizeRange)),
+      rotation: 0,
+      spin: reducedMotion ? 0 : pattern === "spiral" ? 180 : rng.range(-180, 180),
+      opacity: 1,
+      age: 0,
+      life: rng.range(1, 2),
+      fade: 0.5,
+      resting: false,
+      shot,
+    });
+  }
+
+  return particles;
+};
+
+// --- World ---
+
+export interface PhysicsWorld {
+  readonly config: PhysicsConfig;
+  /** Live particles, oldest first. */
+  readonly particles: readonly Particle[];
+  /**
+   * Copies the given particles into pooled instances. Once the budget is
+   * reached the oldest live particles are recycled to make room.
+   */
+  add: (particles: readonly Particle[]) => void;
+  /** Runs one fixed step. */
+  step: () => void;
+  /**
+   * Feeds real elapsed time (seconds) into the fixed-step accumulator.
+   * Returns the number of steps that were simulated.
+   */
+  advance: (elapsed: number) => number;
+  /**
+   * Calls `listener` with the timestep after every fixed step, so other
+   * bodies move in lockstep with the particles. Returns an unsubscribe.
+   */
+  onStep: (listener: (dt: number) => void) => () => void;
+  clear: () => void;
+}
+
+export const createPhysicsWorld = (
+  overrides: Partial<PhysicsConfig> = {}
+): PhysicsWorld => {
+  const config: PhysicsConfig = { ...DEFAULT_PHYSICS, ...overrides };
+  const particles: Particle[] = [];
+  const pool: Particle[] = [];
+  const stepListeners = new Set<(dt: number) => void>();
+  let accumulator = 0;
+
+  const add = (items: readonly Particle[]) => {
+    // Bursts bigger than the whole budget only keep their last particles
+    const start = Math.max(0, items.length - config.maxParticles);
+
+    for (let i = start; i < items.length; i++) {
+      const particle =
+        particles.length >= config.maxParticles
+          ? particles.shift()!
+          : pool.pop() ?? ({} as Particle);
+      particles.push(Object.assign(particle, items[i]));
+
+      // Contained particles live until they settle, not on the burst timer
+      if (config.collisions && !particle.resting) {
+        particle.life = Math.max(particle.life, config.collisions.maxAirTime);
+      }
+    }
+  };
+
+  const step = () => {
+    const dt = config.timestep;
+    let write = 0;
+
+    for (let read = 0; read < particles.length; read++) {
+      const p = particles[read];
+      if (!p.resting) integrateBody(p, dt, config.gravity, config.drag);
+      else p.x += p.vx * dt;
+      for (let i = 0; i < config.obstacles.length; i++) {
+        collideWithRect(p, config.obstacles[i], config.collisions?.restitution, config.collisions?.friction);
+      }
+      if (config.collisions) collideWithBounds(p, dt, config.collisions);
+      p.rotation += p.spin * dt;
+      p.age += dt;
+      p.opacity = clamp(0, 1, (p.life - p.age) / p.fade);
+
+      if (isParticleAlive(p)) particles[write++] = p;
+      else pool.push(p);
+    }
+
+    particles.length = write;
+    stepListeners.forEach((listener) => listener(dt));
+  };
+
+  const advance = (elapsed: number) => {
+    accumulator += Math.max(elapsed, 0);
+    let steps = 0;
+
+    while (accumulator >= config.timestep && steps < config.maxSubSteps) {
+      step();
+      accumulator -= config.timestep;
+      steps++;
+    }
+
+    // Drop whatever we couldn't catch up on rather than simulating it later
+    if (steps === config.maxSubSteps) accumulator = 0;
+    return steps;
+  };
+
+  return {
+    config,
+    particles,
+    add,
+    step,
+    advance,
+    onStep: (listener) => {
+      stepListeners.add(listener);
+      return () => {
+        stepListeners.delete(listener);
+      };
+    },
+    clear: () => {
+      pool.push(...particles);
+      particles.length = 0;
+      accumulator = 0;
+    },
+  };
+};
@@ -0,0 +1,95 @@
+import { DEFAULT_PHYSICS, integrateBody } from "@/services/physics";
+import { Point } from "@/utils/types";
+
+/** Downward acceleration applied to a fired projectile, in px/s². */
+export const PROJECTILE_GRAVITY = 1800;
+
+/** Pull distance (px) that produces the maximum launch speed. */
+export const MAX_PULL_DISTANCE = 500;
+
+/** Launch speed (px/s) reached at `MAX_PULL_DISTANCE`. */
+export const MAX_LAUNCH_SPEED = 2200;
+
+/** Seconds a projectile may fly before it detonates in mid-air. */
+export const PROJECTILE_TIMEOUT = 2.5;
+
+export interface ProjectileState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  age: number;
+}
+
+/**
+ * Converts the pull vector into a launch velocity.
+ * `angle` is the drag direction (radians, as returned by atan2 of the pull),
+ * so the projectile is fired the opposite way, like a real slingshot.
+ */
+export const getLaunchVelocity = (angle: number, distance: number): Point => {
+  const power = Math.min(Math.max(distance, 0), MAX_PULL_DISTANCE) / MAX_PULL_DISTANCE;
+  const speed = power * MAX_LAUNCH_SPEED;
+  return {
+    x: -Math.cos(angle) * speed,
+    y: -Math.sin(angle) * speed,
+  };
+};
+
+/**
+ * Advances a projectile by `dt` seconds. Projectiles ignore air drag so the
+ * flight path stays a clean parabola.
+ */
+export const stepProjectile = (
+  projectile: ProjectileState,
+  dt: number,
+  gravity: number = PROJECTILE_GRAVITY
+) => {
+  integrateBody(projectile, dt, gravity);
+  projectile.age += dt;
+};
+
+/**
+ * A projectile lands when it reaches the floor or leaves the sides of the
+ * viewport. Flying above the top edge is allowed since gravity brings it back.
+ */
+export const hasProjectileLanded = (
+  projectile: ProjectileState,
+  width: number,
+  height: number
+) =>
+  projectile.y >= height ||
+  projectile.x <= 0 ||
+  projectile.x >= width ||
+  projectile.age >= PROJECTILE_TIMEOUT;
+
+/**
+ * Predicts the flight path for a launch from `origin`, using the same
+ * integration and fixed timestep as a live shot. Sampling stops where the
+ * projectile would land, or at the first point `stopAt` accepts (an
+ * obstacle or target it would burst on).
+ */
+export const sampleTrajectory = (
+  origin: Point,
+  velocity: Point,
+  width: number,
+  height: number,
+  step: number = DEFAULT_PHYSICS.timestep,
+  stopAt?: (point: Point) => boolean
+): Point[] => {
+  const projectile: ProjectileState = {
+    x: origin.x,
+    y: origin.y,
+    vx: velocity.x,
+    vy: velocity.y,
+    age: 0,
+  };
+  const points: Point[] = [{ x: origin.x, y: origin.y }];
+
+  while (!hasProjectileLanded(projectile, width, height)) {
+    stepProjectile(projectile, step);
+    points.push({ x: projectile.x, y: projectile.y });
+    if (stopAt?.(projectile)) break;
+  }
+
+  return points;
+};
@@ -0,0 +1,29 @@
+import { getAssetUrls } from "@/services/assets";
+
+// Same-origin files the page has loaded so far, e.g. lazy chunks and the
+// detection worker, which the shell's HTML doesn't link
+const getLoadedAppUrls = () =>
+  performance
+    .getEntriesByType("resource")
+    .map(({ name }) => name)
+    .filter((url) => new URL(url).origin === location.origin);
+
+/**
+ * Registers the offline cache and hands it the asset manifest and the app's
+ * loaded files to fetch. The worker caches the page shell itself on install.
+ * Production only: in development the cache would serve stale modules.
+ */
+export const registerServiceWorker = async () => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  try {
+    await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({
+      type: "precache",
+      urls: [...new Set([...getAssetUrls(), ...getLoadedAppUrls()])],
+    });
+  } catch (err) {
+    console.warn("Service worker registration failed; assets won't be cached offline", err);
+  }
+};
@@ -0,0 +1,350 @@
+import { GestureRegistry } from "@/services/gestures";
+import {
+  createHandInputSource,
+  createInputEmitter,
+  createTwoHandInputSource,
+  DEPTH_PULL_MODES,
+  DepthPullMode,
+  HandInputSource,
+  InputClock,
+} from "@/services/input";
+import { Level, parseLevel } from "@/services/levels";
+import { PATTERN_CHOICES, PatternChoice } from "@/services/physics";
+import { isFiniteNumber, isNonEmptyString, parseJsonObject } from "@/services/validation";
+import { HandInputData, InputEvent, InputMode, InputSource, Point } from "@/utils/types";
+
+/**
+ * Input sessions are JSON recordings of what an input source saw: the hand
+ * frames fed to the hand source in hand mode, or the emitted input events
+ * otherwise. With the RNG seed and the settings that shape a shot they
+ * replay a session shot for shot, so tracking bugs can be reproduced and
+ * hand mode demoed without a camera.
+ */
+
+export const SESSION_VERSION = 2;
+
+/** Canvas settings that consume the RNG or change how shots play out. */
+export interface SessionSettings {
+  pattern: PatternChoice;
+  /** Particles bounce off the viewport edges. */
+  bounce: boolean;
+  depthPull: DepthPullMode;
+  trackpad: boolean;
+  /** Name of the asset pack, whose sprite keys the RNG picks from. */
+  pack: string;
+  /** The round restarted when recording began, or null outside a game. */
+  game: { level: Level | null } | null;
+}
+
+export type SessionEntry =
+  /** One tracked hand, as pushed into the hand source. */
+  | { t: number; hand: HandInputData }
+  /** One event from a pointer, keyboard or gamepad source. */
+  | { t: number; event: InputEvent };
+
+export interface InputSession {
+  version: number;
+  /** Seed the canvas RNG was reset to when recording started. */
+  seed: number;
+  mode: InputMode;
+  twoHanded: boolean;
+  settings: SessionSettings;
+  /** Viewport at recording time; replays scale positions to the current one. */
+  viewport: { width: number; height: number };
+  /** Ordered by `t`, in ms since recording started. */
+  entries: SessionEntry[];
+}
+
+export interface SessionRecorder {
+  recordHand: (data: HandInputData) => void;
+  recordEvent: (event: InputEvent) => void;
+  /** Ends the recording and returns the session. */
+  stop: () => InputSession;
+}
+
+export const createSessionRecorder = (
+  setup: Pick<InputSession, "seed" | "mode" | "twoHanded" | "settings">,
+  now: () => number = () => performance.now()
+): SessionRecorder => {
+  const startedAt = now();
+  const entries: SessionEntry[] = [];
+  const viewport = { width: window.innerWidth, height: window.innerHeight };
+  const elapsed = () => Math.round((now() - startedAt) * 10) / 10;
+
+  return {
+    recordHand: (data) => {
+      entries.push({ t: elapsed(), hand: { ...data, cursor: { ...data.cursor } } });
+    },
+    recordEvent: (event) => {
+      entries.push({ t: elapsed(), event: { ...event } });
+    },
+    stop: () => ({ version: SESSION_VERSION, ...setup, viewport, entries }),
+  };
+};
+
+// --- Files ---
+
+const INPUT_MODES: InputMode[] = ["mouse", "hand", "gamepad", "keyboard"];
+
+const isPoint = (value: any): value is Point =>
+  !!value && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const isHandData = (value: any): value is HandInputData =>
+  !!value &&
+  (value.hand === "Left" || value.hand === "Right") &&
+  typeof value.gesture === "string" &&
+  typeof value.isDetected === "boolean" &&
+  isPoint(value.cursor);
+
+const isInputEvent = (value: any): value is InputEvent =>
+  !!value &&
+  ["move", "press", "release", "cancel"].includes(value.type) &&
+  typeof value.pointerId === "string" &&
+  (value.cursorIndex === null || Number.isInteger(value.cursorIndex)) &&
+  typeof value.visible === "boolean" &&
+  isPoint(value.cursor);
+
+const parseSettings = (value: any): SessionSettings => {
+  if (!value || typeof value !== "object") {
+    throw new Error("Session needs the settings it was recorded with.");
+  }
+  if (!PATTERN_CHOICES.includes(value.pattern)) {
+    throw new Error(`Unknown explosion pattern "${value.pattern}".`);
+  }
+  if (!DEPTH_PULL_MODES.includes(value.depthPull)) {
+    throw new Error(`Unknown depth pull mode "${value.depthPull}".`);
+  }
+  if (typeof value.bounce !== "boolean" || typeof value.trackpad !== "boolean") {
+    throw new Error("Session settings need bounce and trackpad flags.");
+  }
+  if (!isNonEmptyString(value.pack)) {
+    throw new Error("Session settings need the asset pack name.");
+  }
+
+  let game: SessionSettings["game"] = null;
+  if (value.game) {
+    try {
+      game = { level: value.game.level ? parseLevel(JSON.stringify(value.game.level)) : null };
+    } catch (err: any) {
+      throw new Error(`Session game level: ${err.message}`);
+    }
+  }
+
+  return {
+    pattern: value.pattern,
+    bounce: value.bounce,
+    depthPull: value.depthPull,
+    trackpad: value.trackpad,
+    pack: value.pack,
+    game,
+  };
+};
+
+/**
+ * Reads a recorded session. Entries must be in time order and match the
+ * recorded mode: hand frames for hand sessions, input events otherwise.
+ */
+export const parseSession = (json: string): InputSession => {
+  const data = parseJsonObject(json, "Session file");
+
+  if (data.version !== SESSION_VERSION) {
+    throw new Error(`Unsupported session version ${data.version}; expected ${SESSION_VERSION}.`);
+  }
+  if (!isFiniteNumber(data.seed)) {
+    throw new Error("Session needs a numeric seed.");
+  }
+  if (!INPUT_MODES.includes(data.mode)) {
+    throw new Error(`Unknown input mode "${data.mode}".`);
+  }
+  if (!isFiniteNumber(data.viewport?.width) || !isFiniteNumber(data.viewport?.height)) {
+    throw new Error("Session needs the recorded viewport width and height.");
+  }
+  if (!Array.isArray(data.entries)) {
+    throw new Error("Session needs an entries array.");
+  }
+  const settings = parseSettings(data.settings);
+
+  let previous = 0;
+  data.entries.forEach((entry: any, i: number) => {
+    if (!isFiniteNumber(entry?.t) || entry.t < previous) {
+      throw new Error(`Entry ${i + 1} needs a time t no earlier than the entry before it.`);
+    }
+    if (data.mode === "hand" && !isHandData(entry.hand)) {
+      throw new Error(`Entry ${i + 1} is not a valid hand frame.`);
+    }
+    if (data.mode !== "hand" && !isInputEvent(entry.event)) {
+      throw new Error(`Entry ${i + 1} is not a valid input event.`);
+    }
+    previous = entry.t;
+  });
+
+  return {
+    version: SESSION_VERSION,
+    seed: data.seed >>> 0,
+    mode: data.mode,
+    twoHanded: data.twoHanded === true,
+    settings,
+    viewport: { width: data.viewport.width, height: data.viewport.height },
+    entries: data.entries,
+  };
+};
+
+export const serializeSession = (session: InputSession) => JSON.stringify(session);
+
+// --- Replay ---
+
+// Time after the last entry for pending releases and gestures to settle
+const REPLAY_TAIL_MS = 500;
+
+/** Default replay tick, in seconds, when no clock is given. */
+const REPLAY_TICK = 1 / 120;
+
+/**
+ * Calls `tick` with a fixed step in seconds until the returned function is
+ * called. `PhysicsWorld.onStep` is one, keeping replayed input in lockstep
+ * with the simulation.
+ */
+export type ReplayClock = (tick: (dt: number) => void) => () => void;
+
+const intervalClock: ReplayClock = (tick) => {
+  const interval = setInterval(() => tick(REPLAY_TICK), REPLAY_TICK * 1000);
+  return () => clearInterval(interval);
+};
+
+export interface ReplayOptions {
+  /** Gesture bindings for the hand source that replays hand frames. */
+  gestures?: GestureRegistry;
+  /** Called shortly after the last entry has been played. */
+  onEnd?: () => void;
+  /** Drives playback; a fixed-interval timer when omitted. */
+  clock?: ReplayClock;
+}
+
+interface SessionTimer {
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * Session time for the replayed hand source. Its timers only fire when the
+ * replay reaches them, so debounces and gesture holds land between the same
+ * entries on every run, however the replay itself is clocked.
+ */
+const createSessionTime = () => {
+  const timers = new Map<number, SessionTimer>();
+  let time = 0;
+  let nextId = 1;
+
+  const clock: InputClock = {
+    now: () => time,
+    setTimeout: (callback, delay) => {
+      timers.set(nextId, { at: time + delay, callback });
+      return nextId++;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle);
+    },
+  };
+
+  return {
+    clock,
+    set: (to: number) => {
+      time = to;
+    },
+    /** The earliest pending timer, ties going to the one set first. */
+    nextTimer: () => {
+      let first: [number, SessionTimer] | null = null;
+      for (const timer of timers) if (!first || timer[1].at < first[1].at) first = timer;
+      return first;
+    },
+    run: ([id, timer]: [number, SessionTimer]) => {
+      timers.delete(id);
+      time = timer.at;
+      timer.callback();
+    },
+    hasTimers: () => timers.size > 0,
+  };
+};
+
+export interface ReplayInputSource extends InputSource {
+  /** The hand source frames are fed into, when replaying hand mode. */
+  hand: HandInputSource | null;
+}
+
+/**
+ * Plays a session back as an input source. Hand frames go through a fresh
+ * hand source, so pinch debounce and gestures run exactly as they did live.
+ * Session time advances by whole clock ticks, not wall-clock time. Each tick
+ * delivers the entries and hand-source timers due by then in time order,
+ * with the hand source reading each entry's recorded time as "now".
+ */
+export const createReplayInputSource = (
+  session: InputSession,
+  { gestures, onEnd, clock = intervalClock }: ReplayOptions = {}
+): ReplayInputSource => {
+  const emitter = createInputEmitter("replay");
+  const sessionTime = createSessionTime();
+  const handOptions = { gestures, clock: sessionTime.clock };
+  const hand =
+    session.mode === "hand"
+      ? session.twoHanded
+        ? createTwoHandInputSource(handOptions)
+        : createHandInputSource(handOptions)
+      : null;
+  const unsubscribeHand = hand?.subscribe(emitter.emit);
+  const scaleX = window.innerWidth / session.viewport.width;
+  const scaleY = window.innerHeight / session.viewport.height;
+  const scale = (point: Point): Point => ({ x: point.x * scaleX, y: point.y * scaleY });
+  const entryCount = session.entries.length;
+  const endsAt = (entryCount ? session.entries[entryCount - 1].t : 0) + REPLAY_TAIL_MS;
+  let next = 0;
+  let elapsed = 0;
+  let stopClock: (() => void) | null = null;
+
+  const deliver = (entry: SessionEntry) => {
+    sessionTime.set(entry.t);
+    if ("hand" in entry) {
+      hand?.push({ ...entry.hand, cursor: scale(entry.hand.cursor) });
+    } else {
+      emitter.emit({
+        ...entry.event,
+        cursor: scale(entry.event.cursor),
+        ...(entry.event.anchor ? { anchor: scale(entry.event.anchor) } : {}),
+      });
+    }
+  };
+
+  const play = (dt: number) => {
+    elapsed += dt * 1000;
+
+    for (;;) {
+      const timer = sessionTime.nextTimer();
+      const timerAt = timer ? timer[1].at : Infinity;
+      const entryAt = next < entryCount ? session.entries[next].t : Infinity;
+      if (Math.min(timerAt, entryAt) > elapsed) break;
+
+      if (timer && timerAt <= entryAt) sessionTime.run(timer);
+      else deliver(session.entries[next++]);
+    }
+    sessionTime.set(elapsed);
+
+    if (elapsed >= endsAt && !sessionTime.hasTimers()) {
+      stopClock?.();
+      stopClock = null;
+      onEnd?.();
+    }
+  };
+
+  stopClock = clock(play);
+
+  return {
+    hand,
+    subscribe: emitter.subscribe,
+    destroy: () => {
+      stopClock?.();
+      unsubscribeHand?.();
+      hand?.destroy();
+      emitter.clear();
+    },
+  };
+};
@@ -0,0 +1,28 @@
+/**
+ * Checks shared by the parsers for user-supplied JSON files: levels,
+ * sessions and asset packs.
+ */
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && !!value.trim();
+
+/**
+ * Parses `json` and returns the top-level object. `file` names the file in
+ * the error, e.g. "Level file".
+ */
+export const parseJsonObject = (json: string, file: string): any => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error(`${file} is not valid JSON.`);
+  }
+
+  if (!data || typeof data !== "object") {
+    throw new Error(`${file} must contain a JSON object.`);
+  }
+  return data;
+};
@@ -0,0 +1,213 @@
+import { HandLandmarker } from "@mediapipe/tasks-vision";
+import { createGestureClassifier, createRecognizers } from "@/services/gestures";
+import { HANDS } from "@/services/handPipeline";
+import {
+  DEFAULT_PINCH_THRESHOLDS,
+  getApparentHandSize,
+  getPinchRatio,
+  getTrackedHands,
+  loadHandLandmarker,
+  PinchThresholds,
+} from "@/services/handTracking";
+import { Gesture, Handedness } from "@/utils/types";
+
+/**
+ * Offline hand tracking over a video file or an image sequence: every frame
+ * is seeked to (or decoded) and run through the landmarker, so results don't
+ * depend on playback speed or dropped frames. Used to benchmark tracking on
+ * recorded clips.
+ */
+
+export const ANALYSIS_VERSION = 1;
+
+export interface AnalyzedHand {
+  hand: Handedness;
+  gesture: Gesture;
+  pinchRatio: number;
+  handSize: number;
+  /** The 21 landmarks: x and y as fractions of the frame, z relative depth. */
+  landmarks: { x: number; y: number; z: number }[];
+}
+
+export interface AnalyzedFrame {
+  index: number;
+  /** Position in the video, in seconds. */
+  time: number;
+  /** Only the hands found in this frame. */
+  hands: AnalyzedHand[];
+}
+
+export interface VideoAnalysis {
+  version: number;
+  /** The video's file name, or the first image's for a sequence. */
+  source: string;
+  width: number;
+  height: number;
+  /** Frames sampled per second of video; the frame rate of a sequence. */
+  fps: number;
+  /** Clip length in seconds. */
+  duration: number;
+  pinchThresholds: PinchThresholds;
+  frames: AnalyzedFrame[];
+}
+
+export interface AnalyzeVideoOptions {
+  fps: number;
+  /** Pinch thresholds for gesture classification; defaults when omitted. */
+  pinchThresholds: PinchThresholds;
+  /** Fraction of frames done, after each frame. */
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_ANALYSIS_FPS = 30;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const loadVideo = (url: string) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("This video can't be decoded by the browser."));
+    video.src = url;
+  });
+
+const seek = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve) => {
+    video.addEventListener("seeked", () => resolve(), { once: true });
+    video.currentTime = time;
+  });
+
+interface ClipFrames {
+  width: number;
+  height: number;
+  duration: number;
+  frameCount: number;
+  /** Frame `index`, ready for the landmarker until the next call. */
+  read: (index: number) => Promise<TexImageSource>;
+  close: () => void;
+}
+
+const openVideo = async (file: File, fps: number): Promise<ClipFrames> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url);
+
+    // Recorded webm often reports no duration until the end has been seeked to
+    if (!Number.isFinite(video.duration)) await seek(video, Number.MAX_SAFE_INTEGER);
+    if (!Number.isFinite(video.duration)) throw new Error("The video's length is unknown.");
+
+    return {
+      width: video.videoWidth,
+      height: video.videoHeight,
+      duration: video.duration,
+      frameCount: Math.max(1, Math.floor(video.duration * fps)),
+      read: async (index) => {
+        await seek(video, index / fps);
+        return video;
+      },
+      close: () => URL.revokeObjectURL(url),
+    };
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    throw err;
+  }
+};
+
+// One image per frame, in the order given
+const openImageSequence = async (files: File[], fps: number): Promise<ClipFrames> => {
+  let bitmap: ImageBitmap | null = null;
+  const read = async (index: number) => {
+    bitmap?.close();
+    bitmap = null;
+    bitmap = await createImageBitmap(files[index]).catch(() => {
+      throw new Error(`${files[index].name} can't be decoded by the browser.`);
+    });
+    return bitmap;
+  };
+
+  const { width, height } = await read(0);
+  return {
+    width,
+    height,
+    duration: files.length / fps,
+    frameCount: files.length,
+    read,
+    close: () => bitmap?.close(),
+  };
+};
+
+/**
+ * Landmarks, gesture, pinch ratio and hand size for every hand in every
+ * sampled frame of a video file, or every image of a sequence. Gestures keep
+ * their hysteresis from frame to frame, as in live play, and reset when a
+ * hand leaves the frame.
+ */
+export const analyzeVideo = async (
+  source: File | File[],
+  overrides: Partial<AnalyzeVideoOptions> = {}
+): Promise<VideoAnalysis> => {
+  const { fps, pinchThresholds, onProgress, signal }: AnalyzeVideoOptions = {
+    fps: DEFAULT_ANALYSIS_FPS,
+    pinchThresholds: DEFAULT_PINCH_THRESHOLDS,
+    ...overrides,
+  };
+  const files = Array.isArray(source) ? source : [source];
+  if (!files.length) throw new Error("The image sequence is empty.");
+  let clip: ClipFrames | null = null;
+  let landmarker: HandLandmarker | null = null;
+
+  try {
+    // Its own landmarker: frame timestamps restart at 0, behind the live clock
+    landmarker = await loadHandLandmarker();
+    clip = Array.isArray(source) ? await openImageSequence(source, fps) : await openVideo(source, fps);
+
+    const classifiers = {
+      Right: createGestureClassifier(createRecognizers(pinchThresholds)),
+      Left: createGestureClassifier(createRecognizers(pinchThresholds)),
+    };
+    const frames: AnalyzedFrame[] = [];
+
+    for (let index = 0; index < clip.frameCount; index++) {
+      signal?.throwIfAborted();
+
+      const time = index / fps;
+      const frame = await clip.read(index);
+      const tracked = getTrackedHands(landmarker.detectForVideo(frame, Math.round(time * 1000)));
+
+      HANDS.forEach((hand) => {
+        if (!tracked.some((t) => t.hand === hand)) classifiers[hand].reset();
+      });
+
+      frames.push({
+        index,
+        time: round(time),
+        hands: tracked.map(({ hand, landmarks }) => ({
+          hand,
+          gesture: classifiers[hand].classify(landmarks),
+          pinchRatio: round(getPinchRatio(landmarks)),
+          handSize: round(getApparentHandSize(landmarks)),
+          landmarks: landmarks.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) })),
+        })),
+      });
+      onProgress?.((index + 1) / clip.frameCount);
+    }
+
+    return {
+      version: ANALYSIS_VERSION,
+      source: files[0].name,
+      width: clip.width,
+      height: clip.height,
+      fps,
+      duration: clip.duration,
+      pinchThresholds,
+      frames,
+    };
+  } finally {
+    landmarker?.close();
+    clip?.close();
+  }
+};
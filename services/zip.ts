@@ -0,0 +1,91 @@
+/**
+ * Minimal zip reader for user-supplied asset packs: stored and deflated
+ * entries only, no zip64 or encryption. Deflate uses the browser's
+ * `DecompressionStream`.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+const findEndOfCentralDirectory = (view: DataView) => {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("Not a zip file.");
+};
+
+const inflate = (data: Blob) =>
+  new Response(data.stream().pipeThrough(new DecompressionStream("deflate-raw"))).blob();
+
+const readEntries = async (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const end = findEndOfCentralDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  if (offset === 0xffffffff) throw new Error("Zip64 archives aren't supported.");
+
+  const files = new Map<string, Blob>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Zip file is damaged.");
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Folders and macOS resource forks carry no pack files
+    if (name.endsWith("/") || name.startsWith("__MACOSX/")) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Zip entry ${name} is damaged.`);
+    }
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + compressedSize > buffer.byteLength) {
+      throw new Error(`Zip entry ${name} is damaged.`);
+    }
+    const data = new Blob([buffer.slice(dataStart, dataStart + compressedSize)]);
+
+    if (method === STORED) {
+      files.set(name, data);
+    } else if (method === DEFLATED) {
+      files.set(
+        name,
+        await inflate(data).catch(() => {
+          throw new Error(`Zip entry ${name} is damaged.`);
+        })
+      );
+    } else {
+      throw new Error(`Zip entry ${name} uses an unsupported compression method.`);
+    }
+  }
+
+  return files;
+};
+
+/** Every file in the archive, keyed by its path inside the zip. */
+export const readZip = async (zip: Blob): Promise<Map<string, Blob>> => {
+  const buffer = await zip.arrayBuffer();
+  try {
+    return await readEntries(buffer);
+  } catch (err) {
+    // Truncated files leave offsets pointing past the end of the buffer
+    if (err instanceof RangeError) throw new Error("Zip file is damaged.");
+    throw err;
+  }
+};
@@ -3,39 +3,66 @@ export interface Point {
     y: number;
 }
 
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Hand label as seen by the player, not as MediaPipe reports it on the raw frame. */
+export type Handedness = "Left" | "Right";
+
+/** Hand poses told apart by the gesture recognizers. */
+export type Gesture = "none" | "pinch" | "fist" | "openPalm" | "point" | "peace";
+
 export interface HandInputData {
+    hand: Handedness;
     cursor: Point;
-    isPinching: boolean;
+    /** The pose currently held; "pinch" drives the slingshot. */
+    gesture: Gesture;
+    /** Apparent hand size; grows as the hand nears the camera. */
+    handSize?: number;
+    /** Thumb-index distance in hand-size units, for calibration. */
+    pinchRatio?: number;
     isDetected: boolean;
 }
 
+export type InputMode = "mouse" | "hand" | "gamepad" | "keyboard";
+
+export type InputEventType = "move" | "press" | "release" | "cancel";
+
+/**
+ * Device-independent input. Every source reports the cursor in screen
+ * pixels; `press` starts a pull, `move` updates it, `release` fires and
+ * `cancel` drops it without firing.
+ */
+export interface InputEvent {
+    type: InputEventType;
+    /** Stable per pointer/finger/hand so simultaneous pulls stay separate. */
+    pointerId: string;
+    /** Hand cursor sprite that follows this pointer; null for none (extra touches). */
+    cursorIndex: number | null;
+    cursor: Point;
+    /**
+     * Pull anchor when the source places it itself (two-handed slingshot);
+     * otherwise the pull is anchored where it was pressed.
+     */
+    anchor?: Point;
+    /** Extra pull in px from moving the hand toward the camera since the press. */
+    depthPull?: number;
+    /** False when the device lost the cursor (pointer left, hand out of view). */
+    visible: boolean;
+}
+
+export type InputListener = (event: InputEvent) => void;
+
+export interface InputSource {
+    subscribe: (listener: InputListener) => () => void;
+    /** Releases timers, observers and listeners held by the source. */
+    destroy: () => void;
+}
+
 export interface AssetMap {
     [key: string]: HTMLImageElement;
 }
-
-export const PRELOAD_IMAGES_SRC = [
-    { key: "combo", src: "https://assets.codepen.io/16327/3D-combo.png" },
-    { key: "cone", src: "https://assets.codepen.io/16327/3D-cone.png" },
-    { key: "hoop", src: "https://assets.codepen.io/16327/3D-hoop.png" },
-    { key: "keyframe", src: "https://assets.codepen.io/16327/3D-keyframe.png" },
-    { key: "semi", src: "https://assets.codepen.io/16327/3D-semi.png" },
-    { key: "spiral", src: "https://assets.codepen.io/16327/3D-spiral.png" },
-    { key: "squish", src: "https://assets.codepen.io/16327/3D-squish.png" },
-    { key: "triangle", src: "https://assets.codepen.io/16327/3D-triangle.png" },
-    { key: "tunnel", src: "https://assets.codepen.io/16327/3D-tunnel.png" },
-    { key: "wat", src: "https://assets.codepen.io/16327/3D-poly.png" },
-];
-
-export const EXPLOSION_IMAGES_SRC = [
-    { key: "blue-circle", src: "https://assets.codepen.io/16327/2D-circles.png" },
-    { key: "green-keyframe", src: "https://assets.codepen.io/16327/2D-keyframe.png" },
-    { key: "orange-lightning", src: "https://assets.codepen.io/16327/2D-lightning.png" },
-    { key: "orange-star", src: "https://assets.codepen.io/16327/2D-star.png" },
-    { key: "purple-flower", src: "https://assets.codepen.io/16327/2D-flower.png" },
-    { key: "cone", src: "https://assets.codepen.io/16327/3D-cone.png" },
-    { key: "keyframe", src: "https://assets.codepen.io/16327/3D-spiral.png" },
-    { key: "spiral", src: "https://assets.codepen.io/16327/3D-spiral.png" },
-    { key: "tunnel", src: "https://assets.codepen.io/16327/3D-tunnel.png" },
-    { key: "hoop", src: "https://assets.codepen.io/16327/3D-hoop.png" },
-    { key: "semi", src: "https://assets.codepen.io/16327/3D-semi.png" },
-];
\ No newline at end of file
@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Where self-hosted assets are served from, e.g. `/assets/`. Unset uses each asset's upstream host. */
+  readonly VITE_ASSET_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
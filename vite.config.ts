@@ -10,6 +10,10 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      worker: {
+        // Classic workers, so MediaPipe's importScripts works in the detection worker
+        format: 'iife',
+      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),